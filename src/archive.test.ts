@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { archive } from "./archive";
+
+describe("archive completed tasks", () => {
+	it("完了タスクをdone.txtの末尾に移動する", () => {
+		const result = archive(
+			"Task 1\nx 2024-01-05 Done 1\n\nTask 2\nx 2024-01-06 Done 2\n",
+			"x 2024-01-01 Old\n",
+		);
+
+		expect(result.todo).toBe("Task 1\n\nTask 2\n");
+		expect(result.done).toBe(
+			"x 2024-01-01 Old\nx 2024-01-05 Done 1\nx 2024-01-06 Done 2\n",
+		);
+		expect(result.archived.map((todo) => todo.description)).toEqual([
+			"Done 1",
+			"Done 2",
+		]);
+	});
+
+	it("空のdone.txtは改行で終え、todo.txtの末尾改行なし・CRLFを維持する", () => {
+		const result = archive("Task 1\r\nx 2024-01-05 Done", "");
+
+		expect(result.todo).toBe("Task 1");
+		expect(result.done).toBe("x 2024-01-05 Done\r\n");
+		expect(archive("x 2024-01-01 Old\n", "").done).toBe("x 2024-01-01 Old\n");
+	});
+
+	it("完了からの経過日数で絞り込む", () => {
+		const result = archive(
+			"x 2024-01-01 Old\nx 2024-01-09 Recent\nx Undated\n",
+			"",
+			{ minAgeDays: 7, today: "2024-01-10" },
+		);
+
+		expect(result.todo).toBe("x 2024-01-09 Recent\nx Undated\n");
+		expect(result.done).toBe("x 2024-01-01 Old\n");
+	});
+
+	it("アーカイブ対象がなければ元の内容を返す", () => {
+		const result = archive("Task 1\n\n", "x 2024-01-01 Old");
+
+		expect(result).toEqual({
+			todo: "Task 1\n\n",
+			done: "x 2024-01-01 Old",
+			archived: [],
+		});
+	});
+
+	it("アーカイブした行は書かれたとおりにdone.txtへ移す", () => {
+		const result = archive(
+			"Task 1\nx  2024-01-05   Done +work  \nTask 2",
+			"x 2024-01-01 Old\r\n",
+		);
+
+		expect(result.todo).toBe("Task 1\nTask 2");
+		expect(result.done).toBe(
+			"x 2024-01-01 Old\r\nx  2024-01-05   Done +work  \r\n",
+		);
+	});
+
+	it("コメント行は移動しない", () => {
+		const result = archive("# x not a task\nx 2024-01-05 Done\n", "", {
+			commentPrefix: "#",
+		});
+
+		expect(result.todo).toBe("# x not a task\n");
+	});
+});
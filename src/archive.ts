@@ -0,0 +1,105 @@
+import { daysBetween, formatDate } from "./date";
+import { parseTodoDocument, serializeTodoDocument } from "./parser";
+import type {
+	ArchiveOptions,
+	ArchiveResult,
+	LineEnding,
+	Todo,
+	TodoDocument,
+	TodoDocumentLine,
+} from "./types";
+
+/**
+ * Move completed tasks from todo.txt to done.txt
+ *
+ * Archived lines are removed the same way as `deleteTaskAtLine` does: only the
+ * task lines go, while blank lines, comments, line endings and the trailing
+ * newline of both files are preserved. They are appended to done.txt exactly
+ * as written; an empty done.txt ends with a newline.
+ *
+ * @param todoContent - todo.txt content
+ * @param doneContent - done.txt content
+ * @param options - Archive options
+ * @returns New contents of both files and the archived tasks
+ *
+ * @example
+ * ```ts
+ * const { todo, done } = archive(todoTxt, doneTxt, { minAgeDays: 7 });
+ * ```
+ */
+export function archive(
+	todoContent: string,
+	doneContent: string,
+	options: ArchiveOptions = {},
+): ArchiveResult {
+	const { minAgeDays, today = formatDate(new Date()) } = options;
+	const todoDoc = parseTodoDocument(todoContent, options);
+	const doneDoc = parseTodoDocument(doneContent, options);
+
+	const isArchivable = (todo: Todo): boolean => {
+		if (!todo.completed) {
+			return false;
+		}
+		if (minAgeDays === undefined) {
+			return true;
+		}
+		return (
+			todo.completionDate !== undefined &&
+			daysBetween(todo.completionDate, today) >= minAgeDays
+		);
+	};
+
+	// Split in a single pass; archived lines keep their text as written
+	const kept: TodoDocumentLine[] = [];
+	const moved: TodoDocumentLine[] = [];
+	for (const line of todoDoc.lines) {
+		(line.todo && isArchivable(line.todo) ? moved : kept).push(line);
+	}
+
+	const archived = moved.flatMap((line) => (line.todo ? [line.todo] : []));
+	if (archived.length === 0) {
+		return { todo: todoContent, done: doneContent, archived };
+	}
+
+	// A new done.txt takes todo.txt's line ending and, like todo.sh's `>>`,
+	// ends with a newline so later appends start on a line of their own
+	const doneNewline =
+		doneDoc.lines.length > 0 ? doneDoc.newline : todoDoc.newline;
+
+	return {
+		todo: serializeTodoDocument({
+			...todoDoc,
+			lines: withLineEndings(kept, todoDoc),
+		}),
+		done: serializeTodoDocument({
+			...doneDoc,
+			lines: withLineEndings(
+				[
+					...doneDoc.lines,
+					...moved.map((line) => ({ ...line, eol: doneNewline })),
+				],
+				doneDoc,
+				doneNewline,
+			),
+		}),
+		archived,
+	};
+}
+
+/**
+ * Give the last line the line ending of the document's original last line,
+ * so its trailing-newline state is preserved (an empty document gets
+ * `emptyEol`), and every other line one
+ */
+function withLineEndings(
+	lines: TodoDocumentLine[],
+	doc: TodoDocument,
+	emptyEol: LineEnding = "",
+): TodoDocumentLine[] {
+	const finalEol = doc.lines[doc.lines.length - 1]?.eol ?? emptyEol;
+
+	return lines.map((line, index) => {
+		const eol = index === lines.length - 1 ? finalEol : line.eol || doc.newline;
+		return eol === line.eol ? line : { ...line, eol };
+	});
+}
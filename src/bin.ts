@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+import { runTodoCli } from "./cli";
+
+runTodoCli(process.argv.slice(2)).then(
+	(code) => {
+		process.exitCode = code;
+	},
+	(error: unknown) => {
+		process.stderr.write(
+			`TODO: ${error instanceof Error ? error.message : error}\n`,
+		);
+		process.exitCode = 1;
+	},
+);
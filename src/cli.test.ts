@@ -0,0 +1,270 @@
+import { writeFileSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runTodoCli } from "./cli";
+
+describe("runTodoCli", () => {
+	let dir: string;
+	let todoPath: string;
+	let donePath: string;
+
+	const run = async (...args: string[]) => {
+		const stdout: string[] = [];
+		const stderr: string[] = [];
+		const code = await runTodoCli(args, {
+			env: { TODO_DIR: dir },
+			today: "2024-01-05",
+			stdout: (line) => stdout.push(line),
+			stderr: (line) => stderr.push(line),
+		});
+		return { code, stdout, stderr };
+	};
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "todotxt-cli-"));
+		todoPath = join(dir, "todo.txt");
+		donePath = join(dir, "done.txt");
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("addで行番号を表示して追加する", async () => {
+		expect(await run("add", "Call", "Mom", "@phone")).toEqual({
+			code: 0,
+			stdout: ["1 Call Mom @phone", "TODO: 1 added."],
+			stderr: [],
+		});
+		expect((await run("-t", "add", "(A) Pay rent")).stdout[0]).toBe(
+			"2 (A) 2024-01-05 Pay rent",
+		);
+		expect(await readFile(todoPath, "utf8")).toBe(
+			"Call Mom @phone\n(A) 2024-01-05 Pay rent\n",
+		);
+	});
+
+	it("listは並べ替えて件数を表示し、語で絞り込む", async () => {
+		await writeFile(
+			todoPath,
+			"smell the roses\n(B) call Mom @phone\n\n(A) Pay rent +home\n",
+		);
+
+		expect((await run("ls")).stdout).toEqual([
+			"4 (A) Pay rent +home",
+			"2 (B) call Mom @phone",
+			"1 smell the roses",
+			"--",
+			"TODO: 3 of 3 tasks shown",
+		]);
+		expect((await run("list", "MOM")).stdout[0]).toBe("2 (B) call Mom @phone");
+		expect((await run("list", "-rent", "-mom")).stdout).toEqual([
+			"1 smell the roses",
+			"--",
+			"TODO: 1 of 3 tasks shown",
+		]);
+	});
+
+	it("10行以上では番号をゼロ埋めする", async () => {
+		await writeFile(
+			todoPath,
+			`${Array.from({ length: 10 }, (_, i) => `Task ${i}`).join("\n")}\n`,
+		);
+
+		expect((await run("ls", "Task 1")).stdout[0]).toBe("02 Task 1");
+	});
+
+	it("doで完了にして自動でアーカイブする", async () => {
+		await writeFile(todoPath, "(A) 2024-01-01 Call Mom\nPay rent\n");
+		await writeFile(donePath, "x 2024-01-01 Old task\n");
+
+		expect((await run("do", "1")).stdout).toEqual([
+			"1 x 2024-01-05 2024-01-01 Call Mom",
+			"TODO: 1 marked as done.",
+			"x 2024-01-05 2024-01-01 Call Mom",
+			`TODO: ${todoPath} archived.`,
+		]);
+		expect(await readFile(todoPath, "utf8")).toBe("Pay rent\n");
+		expect(await readFile(donePath, "utf8")).toBe(
+			"x 2024-01-01 Old task\nx 2024-01-05 2024-01-01 Call Mom\n",
+		);
+	});
+
+	it("アーカイブ中にtodo.txtが変更されたらどちらのファイルも書き換えない", async () => {
+		await writeFile(todoPath, "Call Mom\nPay rent\n");
+		await writeFile(donePath, "x 2024-01-01 Old task\n");
+
+		const stderr: string[] = [];
+		const code = await runTodoCli(["do", "1"], {
+			env: { TODO_DIR: dir },
+			today: "2024-01-05",
+			// Runs after `do` was saved and before the archive starts
+			stdout: (line) => {
+				if (line === "TODO: 1 marked as done.") {
+					writeFileSync(todoPath, "x 2024-01-05 Call Mom\nPay rent\nNew\n");
+				}
+			},
+			stderr: (line) => stderr.push(line),
+		});
+
+		expect(code).toBe(1);
+		expect(stderr).toEqual([
+			`TODO: ${todoPath} was modified by another process; nothing was changed.`,
+		]);
+		expect(await readFile(todoPath, "utf8")).toBe(
+			"x 2024-01-05 Call Mom\nPay rent\nNew\n",
+		);
+		expect(await readFile(donePath, "utf8")).toBe("x 2024-01-01 Old task\n");
+	});
+
+	it("-aでは完了したタスクを残し、undoで戻す", async () => {
+		await writeFile(todoPath, "Call Mom\nPay rent\n");
+
+		expect((await run("-a", "do", "1,2")).stdout).toEqual([
+			"1 x 2024-01-05 Call Mom",
+			"TODO: 1 marked as done.",
+			"2 x 2024-01-05 Pay rent",
+			"TODO: 2 marked as done.",
+		]);
+		expect((await run("-a", "do", "1")).stdout).toEqual([
+			"TODO: 1 is already marked done.",
+		]);
+		expect((await run("undo", "2")).stdout).toEqual([
+			"2 Pay rent",
+			"TODO: 2 marked as not done.",
+		]);
+		expect(await readFile(todoPath, "utf8")).toBe(
+			"x 2024-01-05 Call Mom\nPay rent\n",
+		);
+	});
+
+	it("priとdepriのメッセージ", async () => {
+		await writeFile(todoPath, "(B) Call Mom\n");
+
+		expect((await run("pri", "1", "a")).stdout).toEqual([
+			"1 (A) Call Mom",
+			"TODO: 1 re-prioritized from (B) to (A).",
+		]);
+		expect((await run("pri", "1", "A")).stdout[1]).toBe(
+			"TODO: 1 already prioritized (A).",
+		);
+		expect((await run("depri", "1")).stdout).toEqual([
+			"1 Call Mom",
+			"TODO: 1 deprioritized.",
+		]);
+		expect((await run("p", "1", "C")).stdout[1]).toBe(
+			"TODO: 1 prioritized (C).",
+		);
+		expect((await run("pri", "1", "1")).code).toBe(1);
+	});
+
+	it("delは行を空にして番号を保ち、語を指定すると語だけ消す", async () => {
+		await writeFile(todoPath, "Call Mom @phone\nPay rent\n");
+
+		expect((await run("del", "2", "rent")).stdout).toEqual([
+			"2 Pay rent",
+			"TODO: Removed 'rent' from task.",
+			"2 Pay",
+		]);
+		expect(await run("del", "2", "milk")).toEqual({
+			code: 1,
+			stdout: ["2 Pay"],
+			stderr: ["TODO: 'milk' not found; no removal done."],
+		});
+		expect((await run("rm", "1")).stdout).toEqual([
+			"1 Call Mom @phone",
+			"TODO: 1 deleted.",
+		]);
+		expect(await readFile(todoPath, "utf8")).toBe("\nPay\n");
+
+		await run("archive");
+		expect(await readFile(todoPath, "utf8")).toBe("Pay\n");
+	});
+
+	it("append、prepend、replace", async () => {
+		await writeFile(todoPath, "(A) 2024-01-01 Call Mom\n");
+
+		expect((await run("append", "1", "@phone")).stdout).toEqual([
+			"1 (A) 2024-01-01 Call Mom @phone",
+		]);
+		expect((await run("app", "1", ", today")).stdout).toEqual([
+			"1 (A) 2024-01-01 Call Mom @phone, today",
+		]);
+		expect((await run("prepend", "1", "Please")).stdout).toEqual([
+			"1 (A) 2024-01-01 Please Call Mom @phone, today",
+		]);
+		expect((await run("replace", "1", "Call Dad")).stdout).toEqual([
+			"1 (A) 2024-01-01 Please Call Mom @phone, today",
+			"TODO: Replaced task with:",
+			"1 (A) 2024-01-01 Call Dad",
+		]);
+	});
+
+	it("listprojとlistcon", async () => {
+		await writeFile(
+			todoPath,
+			"Task +work @office\nTask +home @phone\nOther +garden @phone\n",
+		);
+
+		expect((await run("listproj")).stdout).toEqual([
+			"+garden",
+			"+home",
+			"+work",
+		]);
+		expect((await run("lsc", "Task")).stdout).toEqual(["@office", "@phone"]);
+	});
+
+	it("存在しないタスクや不明なコマンドはエラー", async () => {
+		await writeFile(todoPath, "Task 1\n\n");
+
+		expect(await run("do", "2")).toEqual({
+			code: 1,
+			stdout: [],
+			stderr: ["TODO: No task 2."],
+		});
+		expect((await run("do", "x")).stderr).toEqual([
+			"usage: todotxt do ITEM#[, ITEM#, ...]",
+		]);
+		expect((await run("frobnicate")).code).toBe(1);
+		expect((await run()).code).toBe(1);
+		expect(await readFile(todoPath, "utf8")).toBe("Task 1\n\n");
+	});
+
+	it("書き込めないディレクトリや不正な日付はTODO:のメッセージで失敗する", async () => {
+		const stderr: string[] = [];
+		const options = {
+			env: { TODO_DIR: join(dir, "missing") },
+			stdout: () => {},
+			stderr: (line: string) => stderr.push(line),
+		};
+
+		expect(await runTodoCli(["add", "Call Mom"], options)).toBe(1);
+		expect(stderr[0]).toMatch(/^TODO: ENOENT: /);
+
+		expect(await runTodoCli(["ls"], { ...options, today: "2024-02-30" })).toBe(
+			1,
+		);
+		expect(stderr[1]).toBe('TODO: Invalid date "2024-02-30"');
+	});
+
+	it("TODO_FILEとDONE_FILEでファイルを指定する", async () => {
+		const code = await runTodoCli(["add", "x 2024-01-02 Done"], {
+			env: { TODO_FILE: "work.txt", DONE_FILE: "archive.txt" },
+			cwd: dir,
+			stdout: () => {},
+		});
+		await runTodoCli(["archive"], {
+			env: { TODO_FILE: "work.txt", DONE_FILE: "archive.txt" },
+			cwd: dir,
+			stdout: () => {},
+		});
+
+		expect(code).toBe(0);
+		expect(await readFile(join(dir, "work.txt"), "utf8")).toBe("");
+		expect(await readFile(join(dir, "archive.txt"), "utf8")).toBe(
+			"x 2024-01-02 Done\n",
+		);
+	});
+});
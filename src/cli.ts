@@ -0,0 +1,604 @@
+import { basename, dirname, join, resolve } from "node:path";
+import { archive as archiveTodos } from "./archive";
+import { currentDate } from "./date";
+import { TodoFileConflictError } from "./errors";
+import { TodoFile } from "./file";
+import { completeTodo, setPriority, uncompleteTodo } from "./mutations";
+import {
+	appendDocumentTask,
+	editTodoDocument,
+	parseTodoLine,
+	removeDocumentLine,
+	serializeTodo,
+	serializeTodoDocument,
+	setDocumentTask,
+} from "./parser";
+import type { Todo, TodoCliOptions, TodoDocument } from "./types";
+
+interface CliContext {
+	todo: TodoFile;
+	donePath: string;
+	today: string;
+	dateOnAdd: boolean;
+	autoArchive: boolean;
+	print: (line: string) => void;
+	error: (line: string) => void;
+}
+
+type Command = (context: CliContext, args: string[]) => Promise<number>;
+
+const USAGE =
+	"Usage: todotxt [-fptTaA] action [task_number] [task_description]";
+
+const HELP = [
+	USAGE,
+	"",
+	"Actions:",
+	'  add|a "THING I NEED TO DO +project @context"',
+	'  append|app ITEM# "TEXT TO APPEND"',
+	"  archive",
+	"  del|rm ITEM# [TERM]",
+	"  depri|dp ITEM#[, ITEM#, ...]",
+	"  do ITEM#[, ITEM#, ...]",
+	"  list|ls [TERM...]",
+	"  listcon|lsc [TERM...]",
+	"  listproj|lsprj [TERM...]",
+	'  prepend|prep ITEM# "TEXT TO PREPEND"',
+	"  pri|p ITEM# PRIORITY",
+	'  replace ITEM# "UPDATED TODO"',
+	"  undo ITEM#[, ITEM#, ...]",
+	"",
+	"Options:",
+	"  -f  Accepted for compatibility (nothing asks for confirmation)",
+	"  -p  Accepted for compatibility (output is never colored)",
+	"  -t  Prepend the current date to added tasks",
+	"  -T  Do not prepend the current date to added tasks",
+	"  -a  Do not archive tasks automatically when marking them done",
+	"  -A  Archive tasks automatically when marking them done",
+	"",
+	"Files: TODO_FILE (default: $TODO_DIR/todo.txt), DONE_FILE (default: done.txt",
+	"next to TODO_FILE)",
+];
+
+const ALIASES: Record<string, string> = {
+	a: "add",
+	app: "append",
+	rm: "del",
+	dp: "depri",
+	ls: "list",
+	lsc: "listcon",
+	lsprj: "listproj",
+	prep: "prepend",
+	p: "pri",
+};
+
+const COMMANDS: Record<string, Command> = {
+	add,
+	append,
+	archive,
+	del,
+	depri,
+	do: markDone,
+	list,
+	listcon: (context, args) =>
+		listNames(context, args, (todo) => todo.contexts.map((name) => `@${name}`)),
+	listproj: (context, args) =>
+		listNames(context, args, (todo) => todo.projects.map((name) => `+${name}`)),
+	prepend,
+	pri,
+	replace,
+	undo,
+};
+
+/**
+ * Run the `todotxt` command line
+ *
+ * A todo.sh-compatible interface: tasks are numbered by their line in
+ * todo.txt, `del` blanks the line so other numbers stay valid, `do` archives
+ * completed tasks to done.txt unless disabled, and messages match todo.sh's.
+ * Unlike todo.sh, nothing asks for confirmation and output is never colored.
+ *
+ * @param args - Arguments after the program name
+ * @param options - Environment and output streams
+ * @returns Exit code (1 with a `TODO:` message on stderr when a file cannot be
+ * read or written)
+ *
+ * @example
+ * ```ts
+ * await runTodoCli(["add", "Call Mom @phone"], { env: { TODO_FILE: "todo.txt" } });
+ * // 1 Call Mom @phone
+ * // TODO: 1 added.
+ * ```
+ */
+export async function runTodoCli(
+	args: string[],
+	options: TodoCliOptions = {},
+): Promise<number> {
+	const {
+		env = process.env,
+		cwd = process.cwd(),
+		stdout = (line: string) => process.stdout.write(`${line}\n`),
+		stderr = (line: string) => process.stderr.write(`${line}\n`),
+	} = options;
+
+	let dateOnAdd = env.TODOTXT_DATE_ON_ADD === "1";
+	let autoArchive = env.TODOTXT_AUTO_ARCHIVE !== "0";
+	let index = 0;
+	for (; index < args.length; index++) {
+		const arg = args[index] ?? "";
+		if (!/^-[fptTaA]+$/.test(arg)) {
+			break;
+		}
+		for (const flag of arg.slice(1)) {
+			if (flag === "t" || flag === "T") {
+				dateOnAdd = flag === "t";
+			} else if (flag === "a" || flag === "A") {
+				autoArchive = flag === "A";
+			}
+		}
+	}
+
+	const [action = "", ...rest] = args.slice(index);
+	if (action === "help" || action === "-h") {
+		for (const line of HELP) {
+			stdout(line);
+		}
+		return 0;
+	}
+
+	const command = COMMANDS[ALIASES[action] ?? action];
+	if (!command) {
+		stderr(USAGE);
+		stderr("Try 'todotxt help' for more information.");
+		return 1;
+	}
+
+	const todoPath = resolve(
+		cwd,
+		env.TODO_FILE ?? join(env.TODO_DIR ?? ".", "todo.txt"),
+	);
+
+	try {
+		const context: CliContext = {
+			todo: await TodoFile.open(todoPath),
+			donePath: resolve(
+				cwd,
+				env.DONE_FILE ?? join(dirname(todoPath), "done.txt"),
+			),
+			today: currentDate(options.today),
+			dateOnAdd,
+			autoArchive,
+			print: stdout,
+			error: stderr,
+		};
+		return await command(context, rest);
+	} catch (error) {
+		if (error instanceof TodoFileConflictError) {
+			stderr(`TODO: ${error.message}; nothing was changed.`);
+		} else {
+			// Unreadable or unwritable files and invalid dates
+			stderr(`TODO: ${error instanceof Error ? error.message : error}`);
+		}
+		return 1;
+	}
+}
+
+async function add(context: CliContext, args: string[]): Promise<number> {
+	const text = args.join(" ").replace(/\r?\n/g, " ").trim();
+	if (text.length === 0) {
+		return usage(context, 'add "TODO ITEM"');
+	}
+
+	let todo = parseTodoLine(text);
+	if (context.dateOnAdd && !todo.completed && !todo.creationDate) {
+		todo = parseTodoLine(
+			serializeTodo({ ...todo, creationDate: context.today }),
+		);
+	}
+
+	const doc = await save(context, appendLine(context.todo.document, todo));
+	const item = doc.lines.length;
+	context.print(`${item} ${lineText(doc, item)}`);
+	context.print(`TODO: ${item} added.`);
+	return 0;
+}
+
+async function list(context: CliContext, terms: string[]): Promise<number> {
+	const doc = context.todo.document;
+	const width = String(doc.lines.length).length;
+	const rows = doc.lines.flatMap((line, index) =>
+		line.kind === "blank"
+			? []
+			: [{ item: String(index + 1).padStart(width, "0"), text: line.text }],
+	);
+
+	// Same order as todo.sh's `sort -f -k2`: text without case, then number
+	const shown = rows
+		.filter((row) => matchesTerms(row.text, terms))
+		.sort((a, b) => {
+			const x = a.text.toUpperCase();
+			const y = b.text.toUpperCase();
+			return x < y ? -1 : x > y ? 1 : a.item < b.item ? -1 : 1;
+		});
+
+	for (const row of shown) {
+		context.print(`${row.item} ${row.text}`);
+	}
+	context.print("--");
+	context.print(
+		`${prefixOf(context.todo.path)}: ${shown.length} of ${rows.length} tasks shown`,
+	);
+	return 0;
+}
+
+async function listNames(
+	context: CliContext,
+	terms: string[],
+	namesOf: (todo: Todo) => string[],
+): Promise<number> {
+	const names = new Set<string>();
+	for (const line of context.todo.document.lines) {
+		if (line.todo && matchesTerms(line.text, terms)) {
+			for (const name of namesOf(line.todo)) {
+				names.add(name);
+			}
+		}
+	}
+
+	for (const name of [...names].sort()) {
+		context.print(name);
+	}
+	return 0;
+}
+
+async function markDone(context: CliContext, args: string[]): Promise<number> {
+	const exit = await updateItems(context, args, "do", (item, todo) => {
+		if (todo.completed) {
+			return [undefined, `TODO: ${item} is already marked done.`];
+		}
+		return [
+			completeTodo(todo, { date: context.today, priorityTag: false }),
+			`TODO: ${item} marked as done.`,
+		];
+	});
+
+	return exit === 0 && context.autoArchive ? archive(context) : exit;
+}
+
+async function undo(context: CliContext, args: string[]): Promise<number> {
+	return updateItems(context, args, "undo", (item, todo) => {
+		if (!todo.completed) {
+			return [undefined, `TODO: ${item} is not marked done.`];
+		}
+		return [
+			uncompleteTodo(todo, { priorityTag: false }),
+			`TODO: ${item} marked as not done.`,
+		];
+	});
+}
+
+async function depri(context: CliContext, args: string[]): Promise<number> {
+	return updateItems(context, args, "depri", (item, todo) => {
+		if (!todo.priority) {
+			return [undefined, `TODO: ${item} is not prioritized.`];
+		}
+		return [setPriority(todo, undefined), `TODO: ${item} deprioritized.`];
+	});
+}
+
+async function pri(context: CliContext, args: string[]): Promise<number> {
+	const [arg, value = ""] = args;
+	if (!isItem(arg) || !/^[A-Za-z]$/.test(value) || args.length !== 2) {
+		return usage(
+			context,
+			"pri ITEM# PRIORITY",
+			"note: PRIORITY must be anywhere from A to Z.",
+		);
+	}
+
+	let doc = context.todo.document;
+	const item = Number(arg);
+	const todo = doc.lines[item - 1]?.todo;
+	if (!todo) {
+		return noTask(context, item);
+	}
+
+	const priority = value.toUpperCase();
+	if (todo.priority === priority) {
+		context.print(`${item} ${lineText(doc, item)}`);
+		context.print(`TODO: ${item} already prioritized (${priority}).`);
+		return 0;
+	}
+
+	doc = await save(
+		context,
+		setDocumentTask(doc, item - 1, setPriority(todo, priority)),
+	);
+	context.print(`${item} ${lineText(doc, item)}`);
+	context.print(
+		todo.priority
+			? `TODO: ${item} re-prioritized from (${todo.priority}) to (${priority}).`
+			: `TODO: ${item} prioritized (${priority}).`,
+	);
+	return 0;
+}
+
+async function del(context: CliContext, args: string[]): Promise<number> {
+	const [arg, ...words] = args;
+	if (!isItem(arg)) {
+		return usage(context, "del ITEM# [TERM]");
+	}
+
+	let doc = context.todo.document;
+	const item = Number(arg);
+	const before = lineText(doc, item);
+	if (!doc.lines[item - 1]?.todo) {
+		return noTask(context, item);
+	}
+
+	const term = words.join(" ");
+	if (term.length === 0) {
+		// Blank the line instead of removing it so other numbers stay valid
+		await save(context, blankLine(doc, item - 1));
+		context.print(`${item} ${before}`);
+		context.print(`TODO: ${item} deleted.`);
+		return 0;
+	}
+
+	const after = removeTerm(before, term);
+	context.print(`${item} ${before}`);
+	if (after === before) {
+		context.error(`TODO: '${term}' not found; no removal done.`);
+		return 1;
+	}
+
+	doc = await save(
+		context,
+		after.length === 0
+			? blankLine(doc, item - 1)
+			: setDocumentTask(doc, item - 1, parseTodoLine(after)),
+	);
+	context.print(`TODO: Removed '${term}' from task.`);
+	context.print(`${item} ${lineText(doc, item)}`);
+	return 0;
+}
+
+async function append(context: CliContext, args: string[]): Promise<number> {
+	return editText(
+		context,
+		args,
+		'append ITEM# "TEXT TO APPEND"',
+		(todo, text) =>
+			// todo.sh does not put a space before punctuation
+			parseTodoLine(
+				`${serializeTodo(todo)}${/^[,.:;]/.test(text) ? "" : " "}${text}`,
+			),
+	);
+}
+
+async function prepend(context: CliContext, args: string[]): Promise<number> {
+	return editText(
+		context,
+		args,
+		'prepend ITEM# "TEXT TO PREPEND"',
+		(todo, text) =>
+			parseTodoLine(
+				serializeTodo({ ...todo, description: `${text} ${todo.description}` }),
+			),
+	);
+}
+
+async function replace(context: CliContext, args: string[]): Promise<number> {
+	const [arg, ...words] = args;
+	const text = words.join(" ").trim();
+	if (!isItem(arg) || text.length === 0) {
+		return usage(context, 'replace ITEM# "UPDATED ITEM"');
+	}
+
+	let doc = context.todo.document;
+	const item = Number(arg);
+	const todo = doc.lines[item - 1]?.todo;
+	if (!todo) {
+		return noTask(context, item);
+	}
+
+	// Keep the priority and creation date unless the new text has its own
+	const next = parseTodoLine(text);
+	const replaced = parseTodoLine(
+		serializeTodo({
+			...next,
+			priority: next.priority ?? (next.completed ? undefined : todo.priority),
+			creationDate: next.creationDate ?? todo.creationDate,
+		}),
+	);
+
+	const before = lineText(doc, item);
+	doc = await save(context, setDocumentTask(doc, item - 1, replaced));
+	context.print(`${item} ${before}`);
+	context.print("TODO: Replaced task with:");
+	context.print(`${item} ${lineText(doc, item)}`);
+	return 0;
+}
+
+async function archive(context: CliContext): Promise<number> {
+	// Like todo.sh, archiving also drops blank lines left by `del`
+	let doc = context.todo.document;
+	for (let i = doc.lines.length - 1; i >= 0; i--) {
+		if (doc.lines[i]?.kind === "blank") {
+			doc = removeDocumentLine(doc, i);
+		}
+	}
+
+	const done = await TodoFile.open(context.donePath);
+	const result = archiveTodos(serializeTodoDocument(doc), done.content);
+	if (result.archived.length === 0) {
+		await context.todo.update(() => result.todo);
+	} else {
+		// Check both files before writing either so a conflict changes neither
+		for (const file of [context.todo, done]) {
+			if (await file.isModifiedExternally()) {
+				throw new TodoFileConflictError(file.path);
+			}
+		}
+
+		const previous = done.content;
+		await done.update(() => result.done);
+		try {
+			await context.todo.update(() => result.todo);
+		} catch (error) {
+			// Keep the tasks from being archived twice by the next run
+			await done.update(() => previous);
+			throw error;
+		}
+	}
+
+	for (const todo of result.archived) {
+		context.print(todo.raw);
+	}
+	context.print(`TODO: ${context.todo.path} archived.`);
+	return 0;
+}
+
+/**
+ * Apply a change to each listed task, printing todo.sh's messages
+ */
+async function updateItems(
+	context: CliContext,
+	args: string[],
+	action: string,
+	change: (item: number, todo: Todo) => [Todo | undefined, string],
+): Promise<number> {
+	const items = args.flatMap((arg) => arg.split(",")).filter(Boolean);
+	if (items.length === 0 || !items.every(isItem)) {
+		return usage(context, `${action} ITEM#[, ITEM#, ...]`);
+	}
+
+	let doc = context.todo.document;
+	const missing = items.map(Number).find((item) => !doc.lines[item - 1]?.todo);
+	if (missing !== undefined) {
+		return noTask(context, missing);
+	}
+
+	const messages: string[] = [];
+	for (const item of items.map(Number)) {
+		const todo = doc.lines[item - 1]?.todo;
+		if (!todo) {
+			continue;
+		}
+
+		const [updated, message] = change(item, todo);
+		if (updated) {
+			doc = setDocumentTask(doc, item - 1, updated);
+			messages.push(`${item} ${lineText(doc, item)}`);
+		}
+		messages.push(message);
+	}
+
+	await save(context, doc);
+	for (const message of messages) {
+		context.print(message);
+	}
+	return 0;
+}
+
+async function editText(
+	context: CliContext,
+	args: string[],
+	usageText: string,
+	edit: (todo: Todo, text: string) => Todo,
+): Promise<number> {
+	const [arg, ...words] = args;
+	const text = words.join(" ").trim();
+	if (!isItem(arg) || text.length === 0) {
+		return usage(context, usageText);
+	}
+
+	let doc = context.todo.document;
+	const item = Number(arg);
+	const todo = doc.lines[item - 1]?.todo;
+	if (!todo) {
+		return noTask(context, item);
+	}
+
+	doc = await save(context, setDocumentTask(doc, item - 1, edit(todo, text)));
+	context.print(`${item} ${lineText(doc, item)}`);
+	return 0;
+}
+
+async function save(
+	context: CliContext,
+	doc: TodoDocument,
+): Promise<TodoDocument> {
+	await context.todo.update(() => serializeTodoDocument(doc));
+	return doc;
+}
+
+/**
+ * Append a task, ending a new file with a newline as todo.sh does
+ */
+function appendLine(doc: TodoDocument, todo: Todo): TodoDocument {
+	const next = appendDocumentTask(doc, todo);
+	if (doc.lines.length > 0) {
+		return next;
+	}
+
+	return {
+		...next,
+		lines: next.lines.map((line) => ({ ...line, eol: next.newline })),
+	};
+}
+
+function blankLine(doc: TodoDocument, index: number): TodoDocument {
+	let start = 0;
+	for (const line of doc.lines.slice(0, index)) {
+		start += line.text.length + line.eol.length;
+	}
+
+	const length = doc.lines[index]?.text.length ?? 0;
+	return editTodoDocument(doc, { start, end: start + length, text: "" });
+}
+
+function removeTerm(text: string, term: string): string {
+	let result = ` ${text} `;
+	while (result.includes(` ${term} `)) {
+		result = result.replace(` ${term} `, " ");
+	}
+	return result.slice(1, -1).trim();
+}
+
+function matchesTerms(text: string, terms: string[]): boolean {
+	const haystack = text.toLowerCase();
+	return terms.every((term) =>
+		term.length > 1 && term.startsWith("-")
+			? !haystack.includes(term.slice(1).toLowerCase())
+			: haystack.includes(term.toLowerCase()),
+	);
+}
+
+function lineText(doc: TodoDocument, item: number): string {
+	return doc.lines[item - 1]?.text ?? "";
+}
+
+function isItem(arg: string | undefined): arg is string {
+	return arg !== undefined && /^\d+$/.test(arg) && Number(arg) > 0;
+}
+
+// todo.txt -> TODO, done.txt -> DONE
+function prefixOf(path: string): string {
+	return basename(path)
+		.replace(/\.[^.]*$/, "")
+		.toUpperCase();
+}
+
+function noTask(context: CliContext, item: number): number {
+	context.error(`TODO: No task ${item}.`);
+	return 1;
+}
+
+function usage(context: CliContext, ...lines: string[]): number {
+	context.error(`usage: todotxt ${lines[0] ?? ""}`);
+	for (const line of lines.slice(1)) {
+		context.error(line);
+	}
+	return 1;
+}
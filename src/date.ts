@@ -0,0 +1,235 @@
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const WEEKDAYS = [
+	"sunday",
+	"monday",
+	"tuesday",
+	"wednesday",
+	"thursday",
+	"friday",
+	"saturday",
+];
+
+/**
+ * Check whether a string is a real calendar date in YYYY-MM-DD format
+ *
+ * @param value - String to check
+ * @returns true for dates such as "2024-02-29", false for "2024-13-45"
+ */
+export function isValidDate(value: string): boolean {
+	const match = value.match(ISO_DATE_REGEX);
+	if (!match) {
+		return false;
+	}
+
+	const year = Number(match[1]);
+	const month = Number(match[2]);
+	const day = Number(match[3]);
+	const date = new Date(Date.UTC(year, month - 1, day));
+
+	return (
+		date.getUTCFullYear() === year &&
+		date.getUTCMonth() === month - 1 &&
+		date.getUTCDate() === day
+	);
+}
+
+/**
+ * Format a Date as YYYY-MM-DD in local time
+ *
+ * @param date - Date to format
+ * @returns Date string
+ */
+export function formatDate(date: Date): string {
+	const year = String(date.getFullYear()).padStart(4, "0");
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * Get the current date as YYYY-MM-DD
+ *
+ * @param today - Date string used as is, or an instant to convert
+ * @param timeZone - IANA time zone for instants (defaults to local time)
+ * @returns Date string
+ * @throws {RangeError} If `today` is not a valid date or the time zone is unknown
+ */
+export function currentDate(today?: string | Date, timeZone?: string): string {
+	if (typeof today === "string") {
+		if (!isValidDate(today)) {
+			throw new RangeError(`Invalid date "${today}"`);
+		}
+		return today;
+	}
+
+	const instant = today ?? new Date();
+	if (timeZone === undefined) {
+		return formatDate(instant);
+	}
+
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+	}).formatToParts(instant);
+	const part = (type: Intl.DateTimeFormatPartTypes): string =>
+		parts.find((item) => item.type === type)?.value ?? "";
+
+	return `${part("year").padStart(4, "0")}-${part("month")}-${part("day")}`;
+}
+
+/**
+ * Resolve a date expression against a known date
+ *
+ * See `parseRelativeDate` for the accepted forms.
+ *
+ * @param value - Date expression (case-insensitive)
+ * @param today - Reference date in YYYY-MM-DD format
+ * @returns Date string, or undefined if the value is not a date expression
+ */
+export function resolveRelativeDate(
+	value: string,
+	today: string,
+): string | undefined {
+	if (isValidDate(value)) {
+		return value;
+	}
+
+	const lower = value.toLowerCase();
+	switch (lower) {
+		case "today":
+			return today;
+		case "tomorrow":
+			return addDays(today, 1);
+		case "yesterday":
+			return addDays(today, -1);
+	}
+
+	const relative = lower.match(/^(today)?([+-])(\d+)([dbwmy])?$/);
+	if (relative && (relative[1] || relative[4])) {
+		const amount = Number(relative[3]) * (relative[2] === "-" ? -1 : 1);
+		switch (relative[4]) {
+			case "b":
+				return addBusinessDays(today, amount);
+			case "w":
+				return addDays(today, amount * 7);
+			case "m":
+				return addMonths(today, amount);
+			case "y":
+				return addMonths(today, amount * 12);
+			default:
+				return addDays(today, amount);
+		}
+	}
+
+	const weekday =
+		lower.length >= 3
+			? WEEKDAYS.findIndex((name) => name.startsWith(lower))
+			: -1;
+	if (weekday >= 0) {
+		const current = toUtcDate(today).getUTCDay();
+		return addDays(today, (weekday - current + 7) % 7 || 7);
+	}
+
+	return undefined;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ *
+ * @param date - Date string
+ * @param days - Number of days (may be negative)
+ * @returns Date string
+ */
+export function addDays(date: string, days: number): string {
+	const value = toUtcDate(date);
+	value.setUTCDate(value.getUTCDate() + days);
+
+	return fromUtcDate(value);
+}
+
+/**
+ * Add business days (Monday to Friday) to a YYYY-MM-DD date
+ *
+ * @param date - Date string
+ * @param days - Number of business days (may be negative)
+ * @returns Date string
+ */
+export function addBusinessDays(date: string, days: number): string {
+	const value = toUtcDate(date);
+	const step = days < 0 ? -1 : 1;
+	let remaining = Math.abs(days);
+
+	while (remaining > 0) {
+		value.setUTCDate(value.getUTCDate() + step);
+		const weekday = value.getUTCDay();
+		if (weekday !== 0 && weekday !== 6) {
+			remaining--;
+		}
+	}
+
+	return fromUtcDate(value);
+}
+
+/**
+ * Add months to a YYYY-MM-DD date, clamping to the end of shorter months
+ *
+ * @param date - Date string
+ * @param months - Number of months (may be negative)
+ * @returns Date string ("2024-01-31" plus one month is "2024-02-29")
+ */
+export function addMonths(date: string, months: number): string {
+	const value = toUtcDate(date);
+	const day = value.getUTCDate();
+	value.setUTCDate(1);
+	value.setUTCMonth(value.getUTCMonth() + months);
+
+	const lastDay = new Date(
+		Date.UTC(value.getUTCFullYear(), value.getUTCMonth() + 1, 0),
+	).getUTCDate();
+	value.setUTCDate(Math.min(day, lastDay));
+
+	return fromUtcDate(value);
+}
+
+/**
+ * Count the days from one YYYY-MM-DD date to another
+ *
+ * @param from - Start date
+ * @param to - End date
+ * @returns Number of days (negative if `to` is before `from`)
+ */
+export function daysBetween(from: string, to: string): number {
+	return Math.round(
+		(toUtcDate(to).getTime() - toUtcDate(from).getTime()) / 86_400_000,
+	);
+}
+
+/**
+ * Get the ISO 8601 week of a YYYY-MM-DD date
+ *
+ * @param date - Date string
+ * @returns Week string such as "2024-W02" (the year is the week-numbering year)
+ */
+export function isoWeek(date: string): string {
+	const value = toUtcDate(date);
+	// The Thursday of the same week decides the week-numbering year
+	value.setUTCDate(value.getUTCDate() + 3 - ((value.getUTCDay() + 6) % 7));
+	const year = value.getUTCFullYear();
+	const week =
+		Math.floor(daysBetween(`${year}-01-01`, fromUtcDate(value)) / 7) + 1;
+
+	return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+function toUtcDate(date: string): Date {
+	const [year = 0, month = 1, day = 1] = date.split("-").map(Number);
+	return new Date(Date.UTC(year, month - 1, day));
+}
+
+function fromUtcDate(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
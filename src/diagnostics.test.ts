@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { diagnoseTodoLine, parseTodoTxtWithDiagnostics } from "./diagnostics";
+import { TodoParseError } from "./errors";
+
+describe("diagnose todo line", () => {
+	it("正しい行は診断なし", () => {
+		expect(
+			diagnoseTodoLine("x (A) 2024-01-02 2024-01-01 Task +P @c due:2024-01-05"),
+		).toEqual([]);
+		expect(diagnoseTodoLine("xylophone lesson")).toEqual([]);
+	});
+
+	it("小文字の優先度を警告する", () => {
+		expect(diagnoseTodoLine("(a) Task", 4)).toEqual([
+			{
+				line: 4,
+				column: 0,
+				length: 3,
+				severity: "warning",
+				code: "lowercase-priority",
+				message: 'Priority must be an uppercase letter: "(A)"',
+			},
+		]);
+	});
+
+	it("完了タスクの後の小文字優先度の位置を報告する", () => {
+		const [diagnostic] = diagnoseTodoLine("  x (b) Task");
+		expect(diagnostic?.code).toBe("lowercase-priority");
+		expect(diagnostic?.column).toBe(4);
+	});
+
+	it("存在しない日付をエラーにする", () => {
+		const result = diagnoseTodoLine("(A) 2024-13-45 Task");
+		expect(result).toHaveLength(1);
+		expect(result[0]).toMatchObject({
+			column: 4,
+			length: 10,
+			severity: "error",
+			code: "invalid-date",
+		});
+	});
+
+	it("閏日は有効な日付", () => {
+		expect(diagnoseTodoLine("2024-02-29 Task")).toEqual([]);
+		expect(diagnoseTodoLine("2023-02-29 Task")[0]?.code).toBe("invalid-date");
+	});
+
+	it("未完了タスクの完了日をエラーにする", () => {
+		const result = diagnoseTodoLine("2024-01-02 2024-01-01 Task");
+		expect(result.map((d) => d.code)).toEqual(["completion-date-on-open-task"]);
+		expect(result[0]?.column).toBe(0);
+	});
+
+	it("xの後にスペースがない場合を警告する", () => {
+		for (const line of ["x(A) Task", "x2024-01-01 Task", "x\tTask"]) {
+			expect(diagnoseTodoLine(line).map((d) => d.code)).toEqual([
+				"missing-space-after-completion-mark",
+			]);
+		}
+	});
+
+	it("大文字のXを警告する", () => {
+		expect(diagnoseTodoLine("X Task").map((d) => d.code)).toEqual([
+			"uppercase-completion-mark",
+		]);
+	});
+});
+
+describe("parse with diagnostics", () => {
+	it("タスクと物理行番号付きの診断を返す", () => {
+		const result = parseTodoTxtWithDiagnostics(
+			"(a) Task 1\n\n2024-13-45 Task 2\nTask 3",
+		);
+
+		expect(result.todos).toHaveLength(3);
+		expect(result.diagnostics.map((d) => [d.line, d.column, d.code])).toEqual([
+			[0, 0, "lowercase-priority"],
+			[2, 0, "invalid-date"],
+		]);
+	});
+
+	it("strictモードではエラーでTodoParseErrorを投げる", () => {
+		expect(() =>
+			parseTodoTxtWithDiagnostics("Task 1\n2024-13-45 Task 2", {
+				strict: true,
+			}),
+		).toThrow(TodoParseError);
+
+		try {
+			parseTodoTxtWithDiagnostics("Task 1\n2024-13-45 Task 2", {
+				strict: true,
+			});
+		} catch (error) {
+			expect(error).toBeInstanceOf(TodoParseError);
+			expect((error as TodoParseError).diagnostics[0]?.line).toBe(1);
+			expect((error as TodoParseError).message).toBe(
+				'Invalid date "2024-13-45" (line 2, column 1)',
+			);
+		}
+	});
+
+	it("strictモードは警告も拒否する", () => {
+		for (const line of ["(a) Task", "x(A) Task", "X Task"]) {
+			expect(() => parseTodoTxtWithDiagnostics(line, { strict: true })).toThrow(
+				TodoParseError,
+			);
+		}
+	});
+
+	it('strict: "error"では警告だけなら投げない', () => {
+		const result = parseTodoTxtWithDiagnostics("(a) Task", { strict: "error" });
+		expect(result.diagnostics).toHaveLength(1);
+		expect(() =>
+			parseTodoTxtWithDiagnostics("2024-13-45 Task", { strict: "error" }),
+		).toThrow(TodoParseError);
+	});
+});
@@ -0,0 +1,160 @@
+import { isValidDate } from "./date";
+import { TodoParseError } from "./errors";
+import { parseTodoDocument } from "./parser";
+import { scanTodoLine } from "./tokenizer";
+import type {
+	DiagnosticOptions,
+	ParseResult,
+	Todo,
+	TodoDiagnostic,
+} from "./types";
+
+/**
+ * Parse todo.txt content and report problems found on each line
+ *
+ * @param text - Multi-line string in todo.txt format
+ * @param options - Diagnostic options
+ * @returns Parsed tasks and diagnostics
+ * @throws {TodoParseError} In strict mode, when any diagnostic is found (only
+ * error-severity ones with `strict: "error"`)
+ *
+ * @example
+ * ```ts
+ * const { todos, diagnostics } = parseTodoTxtWithDiagnostics("(a) Task\n2024-13-45 Task");
+ * // diagnostics[0].code === "lowercase-priority"
+ * // diagnostics[1].code === "invalid-date"
+ * ```
+ */
+export function parseTodoTxtWithDiagnostics(
+	text: string,
+	options: DiagnosticOptions = {},
+): ParseResult {
+	const todos: Todo[] = [];
+	const diagnostics: TodoDiagnostic[] = [];
+	const doc = parseTodoDocument(text, options);
+
+	doc.lines.forEach((line, index) => {
+		if (line.todo) {
+			todos.push(line.todo);
+			diagnostics.push(...diagnoseTodoLine(line.text, index));
+		}
+	});
+
+	if (options.strict) {
+		// true rejects any diagnostic; "error" only error-severity ones
+		const rejected =
+			options.strict === "error"
+				? diagnostics.filter((diagnostic) => diagnostic.severity === "error")
+				: diagnostics;
+		if (rejected.length > 0) {
+			throw new TodoParseError(rejected);
+		}
+	}
+
+	return { todos, diagnostics };
+}
+
+/**
+ * Report problems found on a single todo.txt line
+ *
+ * A completion mark directly followed by a letter (`xTask`) is not reported,
+ * since it cannot be told apart from a description starting with a word such
+ * as "xylophone".
+ *
+ * @param line - A single line in todo.txt format
+ * @param lineNumber - Zero-based physical line index to report
+ * @returns Diagnostics in column order
+ */
+export function diagnoseTodoLine(
+	line: string,
+	lineNumber = 0,
+): TodoDiagnostic[] {
+	const diagnostics: TodoDiagnostic[] = [];
+	const { tokens, bodyStart } = scanTodoLine(line);
+
+	const report = (
+		start: number,
+		end: number,
+		severity: TodoDiagnostic["severity"],
+		code: TodoDiagnostic["code"],
+		message: string,
+	) => {
+		diagnostics.push({
+			line: lineNumber,
+			column: start,
+			length: end - start,
+			severity,
+			code,
+			message,
+		});
+	};
+
+	const completed = tokens.some((token) => token.type === "completion");
+	const hasHeader = tokens.some(
+		(token) =>
+			token.type === "priority" ||
+			token.type === "completionDate" ||
+			token.type === "creationDate",
+	);
+
+	if (!completed && !hasHeader) {
+		const mark = line.slice(bodyStart).match(/^[xX](?=[\t(]|\d{4}-)|^X(?= )/);
+		if (mark?.[0] === "X") {
+			report(
+				bodyStart,
+				bodyStart + 1,
+				"warning",
+				"uppercase-completion-mark",
+				'Completion mark must be a lowercase "x"',
+			);
+		} else if (mark) {
+			report(
+				bodyStart,
+				bodyStart + 1,
+				"warning",
+				"missing-space-after-completion-mark",
+				'Completion mark "x" must be followed by a space',
+			);
+		}
+	}
+
+	if (!hasHeader) {
+		const lowercase = line.slice(bodyStart).match(/^\(([a-z])\)\s/);
+		if (lowercase) {
+			report(
+				bodyStart,
+				bodyStart + 3,
+				"warning",
+				"lowercase-priority",
+				`Priority must be an uppercase letter: "(${lowercase[1]?.toUpperCase()})"`,
+			);
+		}
+	}
+
+	for (const token of tokens) {
+		if (
+			(token.type === "completionDate" || token.type === "creationDate") &&
+			!isValidDate(token.text)
+		) {
+			report(
+				token.start,
+				token.end,
+				"error",
+				"invalid-date",
+				`Invalid date "${token.text}"`,
+			);
+		}
+
+		if (token.type === "completionDate" && !completed) {
+			report(
+				token.start,
+				token.end,
+				"error",
+				"completion-date-on-open-task",
+				"Completion date on a task that is not completed",
+			);
+		}
+	}
+
+	return diagnostics.sort((a, b) => a.column - b.column);
+}
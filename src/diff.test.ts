@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { diffTodoTxt } from "./diff";
+
+const kinds = (before: string, after: string) =>
+	diffTodoTxt(before, after).map((change) => change.kinds);
+
+describe("diffTodoTxt", () => {
+	it("追加と削除を報告する", () => {
+		const changes = diffTodoTxt("Task A\nTask B\n", "Task A\nTask C\n");
+
+		expect(changes.map((change) => change.kinds)).toEqual([
+			["added"],
+			["removed"],
+		]);
+		expect(changes[0]?.after?.description).toBe("Task C");
+		expect(changes[1]?.before?.description).toBe("Task B");
+	});
+
+	it("並べ替え・空行・タグの順序だけの変更は報告しない", () => {
+		expect(
+			diffTodoTxt(
+				"Task A\nTask B due:2024-01-01 +work\n",
+				"\nTask B +work due:2024-01-01\nTask A\n",
+			),
+		).toEqual([]);
+	});
+
+	it("完了と再開を報告し、優先度タグへの移動は含めない", () => {
+		expect(
+			kinds("(A) Call Mom +family\n", "x 2024-01-05 Call Mom +family pri:A\n"),
+		).toEqual([["completed"]]);
+		expect(
+			kinds("x 2024-01-05 Call Mom +family pri:A\n", "(A) Call Mom +family\n"),
+		).toEqual([["reopened"]]);
+	});
+
+	it("優先度の変更を報告する", () => {
+		expect(kinds("(A) Call Mom\n", "(C) Call Mom\n")).toEqual([
+			["reprioritized"],
+		]);
+		expect(kinds("Call Mom\n", "(B) Call Mom\n")).toEqual([["reprioritized"]]);
+	});
+
+	it("プロジェクト・コンテキスト・タグの変更を詳細つきで報告する", () => {
+		const [change] = diffTodoTxt(
+			"Write report +work @office due:2024-01-10\n",
+			"Write report +work +q1 due:2024-01-12\n",
+		);
+
+		expect(change?.kinds).toEqual(["retagged"]);
+		expect(change?.projects).toEqual({ added: ["q1"], removed: [] });
+		expect(change?.contexts).toEqual({ added: [], removed: ["office"] });
+		expect(change?.tags).toEqual({
+			added: [{ key: "due", value: "2024-01-12" }],
+			removed: [{ key: "due", value: "2024-01-10" }],
+		});
+	});
+
+	it("本文の編集と複数の変更の組み合わせ", () => {
+		expect(
+			kinds(
+				"(B) Buy milk at the store +home\n",
+				"x 2024-01-05 Buy oat milk at the store +home @shop\n",
+			),
+		).toEqual([["completed", "reprioritized", "retagged", "edited"]]);
+		expect(kinds("Buy milk at the store\n", "Buy milk at the shop\n")).toEqual([
+			["edited"],
+		]);
+	});
+
+	it("似ていないタスクは削除と追加になる", () => {
+		expect(kinds("Call Mom\n", "Pay rent\n")).toEqual([["added"], ["removed"]]);
+	});
+
+	it("コメント行は対象外", () => {
+		expect(
+			diffTodoTxt("# note\nTask\n", "# other note\nTask\n", {
+				commentPrefix: "#",
+			}),
+		).toEqual([]);
+	});
+});
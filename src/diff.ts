@@ -0,0 +1,151 @@
+import type { MatchTask } from "./match";
+import { invert, matchTasks, tasksOf } from "./match";
+import { parseTodoDocument } from "./parser";
+import { getTagEntries, getTagValues } from "./tags";
+import type {
+	DiffOptions,
+	TodoChange,
+	TodoChangeKind,
+	TodoListChange,
+	TodoTag,
+} from "./types";
+
+/**
+ * Compare two versions of a todo.txt file task by task
+ *
+ * Tasks are matched by their text, then by the similarity of their words, so
+ * reordering is not a change and an edited task is reported as edited rather
+ * than removed and added. Blank lines, comments and changes that do not
+ * alter any field (such as reordered tags) are not reported.
+ *
+ * @param before - Old content
+ * @param after - New content
+ * @param options - Diff options
+ * @returns Changes in the order of the new content, followed by removed tasks
+ *
+ * @example
+ * ```ts
+ * diffTodoTxt("(A) Call Mom\nBuy milk\n", "x 2024-01-05 Call Mom pri:A\nPay rent\n");
+ * // [
+ * //   { kinds: ["completed"], before: {...}, after: {...} },
+ * //   { kinds: ["added"], after: {...} },
+ * //   { kinds: ["removed"], before: {...} }
+ * // ]
+ * ```
+ */
+export function diffTodoTxt(
+	before: string,
+	after: string,
+	options: DiffOptions = {},
+): TodoChange[] {
+	const beforeTasks = tasksOf(parseTodoDocument(before, options), options);
+	const afterTasks = tasksOf(parseTodoDocument(after, options), options);
+	const origins = invert(matchTasks(beforeTasks, afterTasks));
+	const changes: TodoChange[] = [];
+
+	afterTasks.forEach((task, index) => {
+		const origin = origins.get(index);
+		const old = origin === undefined ? undefined : beforeTasks[origin];
+		if (!old) {
+			changes.push({ kinds: ["added"], after: task.todo });
+			return;
+		}
+
+		const change = compareTasks(old, task, options);
+		if (change) {
+			changes.push(change);
+		}
+	});
+
+	const matched = new Set(origins.values());
+	beforeTasks.forEach((task, index) => {
+		if (!matched.has(index)) {
+			changes.push({ kinds: ["removed"], before: task.todo });
+		}
+	});
+
+	return changes;
+}
+
+function compareTasks(
+	before: MatchTask,
+	after: MatchTask,
+	{ priorityTag = "pri" }: DiffOptions,
+): TodoChange | undefined {
+	if (before.text === after.text) {
+		return undefined;
+	}
+
+	const b = before.todo;
+	const a = after.todo;
+	const kinds: TodoChangeKind[] = [];
+
+	if (b.completed !== a.completed) {
+		kinds.push(a.completed ? "completed" : "reopened");
+	}
+
+	// Completing moves the priority into a tag and reopening moves it back;
+	// neither is a priority or tag change of its own
+	const done = a.completed ? a : b;
+	const open = a.completed ? b : a;
+	const movedTag =
+		b.completed !== a.completed &&
+		priorityTag !== false &&
+		open.priority !== undefined &&
+		done.priority === undefined &&
+		getTagValues(done, priorityTag).includes(open.priority)
+			? `${priorityTag}:${open.priority}`
+			: undefined;
+
+	if (b.priority !== a.priority && movedTag === undefined) {
+		kinds.push("reprioritized");
+	}
+
+	const tagKey = (tag: TodoTag): string => `${tag.key}:${tag.value}`;
+	const projects = diffList(b.projects, a.projects, String);
+	const contexts = diffList(b.contexts, a.contexts, String);
+	const tags = diffList(
+		getTagEntries(b).filter((tag) => tagKey(tag) !== movedTag),
+		getTagEntries(a).filter((tag) => tagKey(tag) !== movedTag),
+		tagKey,
+	);
+	const retagged = [projects, contexts, tags].some(
+		(list) => list.added.length > 0 || list.removed.length > 0,
+	);
+	if (retagged) {
+		kinds.push("retagged");
+	}
+
+	if (
+		before.plain !== after.plain ||
+		b.creationDate !== a.creationDate ||
+		(b.completed && a.completed && b.completionDate !== a.completionDate)
+	) {
+		kinds.push("edited");
+	}
+
+	if (kinds.length === 0) {
+		return undefined;
+	}
+
+	return {
+		kinds,
+		before: b,
+		after: a,
+		...(retagged ? { projects, contexts, tags } : {}),
+	};
+}
+
+function diffList<T>(
+	before: T[],
+	after: T[],
+	key: (item: T) => string,
+): TodoListChange<T> {
+	const beforeKeys = new Set(before.map(key));
+	const afterKeys = new Set(after.map(key));
+
+	return {
+		added: after.filter((item) => !beforeKeys.has(key(item))),
+		removed: before.filter((item) => !afterKeys.has(key(item))),
+	};
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+	isDueWithin,
+	isHidden,
+	isOverdue,
+	parseRelativeDate,
+	resolveDateTags,
+} from "./due";
+import { parseTodoLine } from "./parser";
+
+// 2024-01-03 is a Wednesday
+const today = "2024-01-03";
+
+describe("parseRelativeDate", () => {
+	it("キーワードと絶対日付を解決する", () => {
+		expect(parseRelativeDate("today", { today })).toBe("2024-01-03");
+		expect(parseRelativeDate("Tomorrow", { today })).toBe("2024-01-04");
+		expect(parseRelativeDate("yesterday", { today })).toBe("2024-01-02");
+		expect(parseRelativeDate("2024-02-29", { today })).toBe("2024-02-29");
+	});
+
+	it("相対オフセットを解決する", () => {
+		expect(parseRelativeDate("+3d", { today })).toBe("2024-01-06");
+		expect(parseRelativeDate("-1w", { today })).toBe("2023-12-27");
+		expect(parseRelativeDate("+2b", { today: "2024-01-05" })).toBe(
+			"2024-01-09",
+		);
+		expect(parseRelativeDate("+1m", { today: "2024-01-31" })).toBe(
+			"2024-02-29",
+		);
+		expect(parseRelativeDate("today+2", { today })).toBe("2024-01-05");
+	});
+
+	it("曜日名は今日より後の次の曜日になる", () => {
+		expect(parseRelativeDate("fri", { today })).toBe("2024-01-05");
+		expect(parseRelativeDate("Monday", { today })).toBe("2024-01-08");
+		expect(parseRelativeDate("wed", { today })).toBe("2024-01-10");
+	});
+
+	it("日付表現でなければundefined", () => {
+		expect(parseRelativeDate("+3", { today })).toBeUndefined();
+		expect(parseRelativeDate("fr", { today })).toBeUndefined();
+		expect(parseRelativeDate("2024-13-01", { today })).toBeUndefined();
+		expect(parseRelativeDate("soon", { today })).toBeUndefined();
+	});
+
+	it("時刻とタイムゾーンから今日を決める", () => {
+		const instant = new Date("2024-01-03T20:00:00Z");
+
+		expect(
+			parseRelativeDate("today", { today: instant, timeZone: "Asia/Tokyo" }),
+		).toBe("2024-01-04");
+		expect(
+			parseRelativeDate("today", { today: instant, timeZone: "UTC" }),
+		).toBe("2024-01-03");
+	});
+
+	it("不正な今日やタイムゾーンはRangeError", () => {
+		expect(() => parseRelativeDate("today", { today: "2024-02-30" })).toThrow(
+			RangeError,
+		);
+		expect(() => parseRelativeDate("today", { timeZone: "Not/AZone" })).toThrow(
+			RangeError,
+		);
+	});
+});
+
+describe("isOverdue / isDueWithin", () => {
+	it("期限切れの未完了タスクを判定する", () => {
+		expect(isOverdue(parseTodoLine("Task due:2024-01-02"), { today })).toBe(
+			true,
+		);
+		expect(isOverdue(parseTodoLine("Task due:2024-01-03"), { today })).toBe(
+			false,
+		);
+		expect(
+			isOverdue(parseTodoLine("x 2024-01-03 Task due:2024-01-01"), { today }),
+		).toBe(false);
+		expect(isOverdue(parseTodoLine("Task due:someday"), { today })).toBe(false);
+	});
+
+	it("指定日数以内の期限を判定する", () => {
+		const todo = parseTodoLine("Task due:2024-01-10");
+
+		expect(isDueWithin(todo, 7, { today })).toBe(true);
+		expect(isDueWithin(todo, 6, { today })).toBe(false);
+		expect(
+			isDueWithin(parseTodoLine("Task due:2024-01-03"), 0, { today }),
+		).toBe(true);
+		expect(
+			isDueWithin(parseTodoLine("Task due:2024-01-02"), 7, { today }),
+		).toBe(false);
+	});
+});
+
+describe("isHidden", () => {
+	it("未来のしきい値日付のタスクは非表示", () => {
+		expect(isHidden(parseTodoLine("Task t:2024-01-04"), { today })).toBe(true);
+		expect(isHidden(parseTodoLine("Task t:2024-01-03"), { today })).toBe(false);
+		expect(isHidden(parseTodoLine("Task"), { today })).toBe(false);
+	});
+});
+
+describe("resolveDateTags", () => {
+	it("due:とt:の相対日付を絶対日付に書き換える", () => {
+		const todo = resolveDateTags(
+			parseTodoLine("Call Bob due:fri t:+1d est:tomorrow"),
+			{ today },
+		);
+
+		expect(todo.raw).toBe("Call Bob due:2024-01-05 t:2024-01-04 est:tomorrow");
+		expect(todo.tags.due).toBe("2024-01-05");
+	});
+
+	it("キーを指定でき、変更がなければ元のTodoを返す", () => {
+		const todo = parseTodoLine("Task due:2024-01-05 remind:tomorrow");
+
+		expect(resolveDateTags(todo, { today })).toBe(todo);
+		expect(resolveDateTags(todo, { today, keys: ["remind"] }).raw).toBe(
+			"Task due:2024-01-05 remind:2024-01-04",
+		);
+	});
+});
@@ -0,0 +1,143 @@
+import { addDays, currentDate, isValidDate, resolveRelativeDate } from "./date";
+import { editTokens } from "./mutations";
+import { getTagValues } from "./tags";
+import type { DateOptions, ResolveDatesOptions, Todo } from "./types";
+
+/**
+ * Parse an absolute or relative date into YYYY-MM-DD
+ *
+ * Accepts dates such as "2024-01-15", `today`, `tomorrow`, `yesterday`,
+ * offsets such as `+3d`, `-1w` or `today+2` (units d, b for business days, w,
+ * m and y) and weekday names such as `fri` or `friday`, which mean the next
+ * such day after today.
+ *
+ * @param value - Date expression (case-insensitive)
+ * @param options - Date options
+ * @returns Date string, or undefined if the value is not a date expression
+ * @throws {RangeError} If `today` is not a valid date or the time zone is unknown
+ *
+ * @example
+ * ```ts
+ * parseRelativeDate("fri", { today: "2024-01-01" }); // "2024-01-05"
+ * parseRelativeDate("+3d", { today: new Date(), timeZone: "Asia/Tokyo" });
+ * ```
+ */
+export function parseRelativeDate(
+	value: string,
+	options: DateOptions = {},
+): string | undefined {
+	return resolveRelativeDate(
+		value,
+		currentDate(options.today, options.timeZone),
+	);
+}
+
+/**
+ * Check whether an open todo is past its `due:` date
+ *
+ * @param todo - Todo to check
+ * @param options - Date options
+ * @returns true if the todo is open and due before today
+ * @throws {RangeError} If `today` is not a valid date or the time zone is unknown
+ */
+export function isOverdue(todo: Todo, options: DateOptions = {}): boolean {
+	const due = dueDate(todo);
+	return (
+		!todo.completed &&
+		due !== undefined &&
+		due < currentDate(options.today, options.timeZone)
+	);
+}
+
+/**
+ * Check whether an open todo is due within the next days
+ *
+ * Overdue todos are not included; combine with {@link isOverdue} for both.
+ *
+ * @param todo - Todo to check
+ * @param days - Number of days after today (0 means due today)
+ * @param options - Date options
+ * @returns true if the todo is open and due between today and today + days
+ * @throws {RangeError} If `today` is not a valid date or the time zone is unknown
+ *
+ * @example
+ * ```ts
+ * isDueWithin(parseTodoLine("Task due:2024-01-07"), 7, { today: "2024-01-05" }); // true
+ * ```
+ */
+export function isDueWithin(
+	todo: Todo,
+	days: number,
+	options: DateOptions = {},
+): boolean {
+	const due = dueDate(todo);
+	if (todo.completed || due === undefined) {
+		return false;
+	}
+
+	const today = currentDate(options.today, options.timeZone);
+	return due >= today && due <= addDays(today, days);
+}
+
+/**
+ * Check whether a todo is hidden by a `t:` threshold date in the future
+ *
+ * @param todo - Todo to check
+ * @param options - Date options
+ * @returns true if the threshold date is after today
+ * @throws {RangeError} If `today` is not a valid date or the time zone is unknown
+ */
+export function isHidden(todo: Todo, options: DateOptions = {}): boolean {
+	const [threshold] = getTagValues(todo, "t");
+	return (
+		threshold !== undefined &&
+		isValidDate(threshold) &&
+		threshold > currentDate(options.today, options.timeZone)
+	);
+}
+
+/**
+ * Rewrite relative dates in date tags as absolute YYYY-MM-DD dates
+ *
+ * Meant for tasks as the user typed them, e.g. `due:tomorrow`, `due:+3d` or
+ * `t:fri` (see {@link parseRelativeDate} for the accepted forms). Values
+ * that are not date expressions are left as they are.
+ *
+ * @param todo - Todo to update
+ * @param options - Date options and tag keys
+ * @returns New Todo (the original if nothing changed)
+ * @throws {RangeError} If `today` is not a valid date or the time zone is unknown
+ *
+ * @example
+ * ```ts
+ * resolveDateTags(parseTodoLine("Call Bob due:fri t:+1d"), { today: "2024-01-01" });
+ * // raw: "Call Bob due:2024-01-05 t:2024-01-02"
+ * ```
+ */
+export function resolveDateTags(
+	todo: Todo,
+	options: ResolveDatesOptions = {},
+): Todo {
+	const { keys = ["due", "t"] } = options;
+	const today = currentDate(options.today, options.timeZone);
+
+	return editTokens(todo, (token) => {
+		if (
+			token.type !== "tag" ||
+			token.key === undefined ||
+			token.value === undefined ||
+			!keys.includes(token.key) ||
+			isValidDate(token.value)
+		) {
+			return undefined;
+		}
+
+		const date = resolveRelativeDate(token.value, today);
+		return date === undefined ? undefined : `${token.key}:${date}`;
+	});
+}
+
+function dueDate(todo: Todo): string | undefined {
+	const [due] = getTagValues(todo, "due");
+	return due !== undefined && isValidDate(due) ? due : undefined;
+}
@@ -0,0 +1,68 @@
+import type { TodoDiagnostic, TodoValidationIssue } from "./types";
+
+/**
+ * Error thrown by strict parsing when a line is malformed
+ */
+export class TodoParseError extends Error {
+	/** All error-severity diagnostics that caused the failure */
+	readonly diagnostics: TodoDiagnostic[];
+
+	constructor(diagnostics: TodoDiagnostic[]) {
+		const [first] = diagnostics;
+		super(
+			first
+				? `${first.message} (line ${first.line + 1}, column ${first.column + 1})`
+				: "Invalid todo.txt content",
+		);
+		this.name = "TodoParseError";
+		this.diagnostics = diagnostics;
+	}
+}
+
+/**
+ * Error thrown when a query has invalid syntax
+ */
+export class TodoQueryError extends Error {
+	/** Zero-based offset of the offending text in the query */
+	readonly position: number;
+	/** Length of the offending text */
+	readonly length: number;
+
+	constructor(message: string, position: number, length = 1) {
+		super(`${message} at position ${position}`);
+		this.name = "TodoQueryError";
+		this.position = position;
+		this.length = length;
+	}
+}
+
+/**
+ * Error thrown when a todo.txt file changed on disk since it was loaded
+ */
+export class TodoFileConflictError extends Error {
+	/** Path of the file */
+	readonly path: string;
+
+	constructor(path: string) {
+		super(`${path} was modified by another process`);
+		this.name = "TodoFileConflictError";
+		this.path = path;
+	}
+}
+
+/**
+ * Error thrown by `assertTodo` when a value is not a valid Todo
+ */
+export class TodoValidationError extends Error {
+	/** All problems found */
+	readonly issues: TodoValidationIssue[];
+
+	constructor(issues: TodoValidationIssue[]) {
+		const [first] = issues;
+		super(
+			first ? `${first.message} (at ${first.path || "/"})` : "Invalid todo",
+		);
+		this.name = "TodoValidationError";
+		this.issues = issues;
+	}
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+	exportCsv,
+	exportICalendar,
+	exportJsonLines,
+	exportMarkdown,
+} from "./export";
+import { parseTodoTxt } from "./parser";
+
+const todos = parseTodoTxt(
+	[
+		"(A) 2024-01-01 Call Mom +family @phone due:2024-01-05",
+		"x 2024-01-03 Pay rent +home est:1h",
+		'Write "report", today +work.docs due:2024-01-10 due:2024-01-12',
+	].join("\n"),
+);
+
+describe("exportJsonLines", () => {
+	it("1行に1つのJSONオブジェクト", () => {
+		const lines = exportJsonLines(todos).split("\n");
+
+		expect(lines).toHaveLength(4);
+		expect(lines[3]).toBe("");
+		expect(JSON.parse(lines[0] ?? "")).toEqual(todos[0]);
+		expect(exportJsonLines([])).toBe("");
+	});
+});
+
+describe("exportCsv", () => {
+	it("既定の列とタグごとの列", () => {
+		expect(exportCsv(todos).split("\r\n")).toEqual([
+			"completed,priority,completionDate,creationDate,description,projects,contexts,due,est",
+			"false,A,,2024-01-01,Call Mom +family @phone due:2024-01-05,family,phone,2024-01-05,",
+			"true,,2024-01-03,,Pay rent +home est:1h,home,,,1h",
+			'false,,,,"Write ""report"", today +work.docs due:2024-01-10 due:2024-01-12",work.docs,,2024-01-10 2024-01-12,',
+			"",
+		]);
+	});
+
+	it("列と区切り文字を指定する", () => {
+		const csv = exportCsv(todos.slice(0, 2), {
+			columns: [
+				"priority",
+				"tags",
+				{ header: "done", value: (todo) => (todo.completed ? "yes" : "no") },
+			],
+			delimiter: ";",
+			newline: "\n",
+		});
+
+		expect(csv).toBe("priority;tags;done\nA;due:2024-01-05;no\n;est:1h;yes\n");
+		expect(exportCsv(todos, { columns: ["raw"], header: false })).toBe(
+			todos
+				.map(
+					(todo) =>
+						`${todo.raw.includes('"') ? `"${todo.raw.replace(/"/g, '""')}"` : todo.raw}\r\n`,
+				)
+				.join(""),
+		);
+	});
+
+	it("不明な列はエラー", () => {
+		expect(() =>
+			exportCsv(todos, { columns: ["title" as "description"] }),
+		).toThrow(RangeError);
+	});
+});
+
+describe("exportICalendar", () => {
+	const timestamp = new Date("2024-01-04T09:30:00Z");
+
+	it("VTODOに変換する", () => {
+		const ics = exportICalendar(todos.slice(0, 2), { timestamp });
+
+		expect(ics.split("\r\n")).toEqual([
+			"BEGIN:VCALENDAR",
+			"VERSION:2.0",
+			"PRODID:-//todotxt-parser//EN",
+			"BEGIN:VTODO",
+			"UID:c091951f-0@todotxt",
+			"DTSTAMP:20240104T093000Z",
+			"SUMMARY:Call Mom",
+			"STATUS:NEEDS-ACTION",
+			"PRIORITY:1",
+			"DUE;VALUE=DATE:20240105",
+			"CATEGORIES:+family,@phone",
+			"X-TODOTXT-LINE:(A) 2024-01-01 Call Mom +family @phone due:2024-01-05",
+			"END:VTODO",
+			"BEGIN:VTODO",
+			"UID:ee4582c1-0@todotxt",
+			"DTSTAMP:20240104T093000Z",
+			"SUMMARY:Pay rent",
+			"STATUS:COMPLETED",
+			"COMPLETED:20240103T120000Z",
+			"CATEGORIES:+home",
+			"X-TODOTXT-LINE:x 2024-01-03 Pay rent +home est:1h",
+			"END:VTODO",
+			"END:VCALENDAR",
+			"",
+		]);
+	});
+
+	it("テキストをエスケープし長い行を折り返す", () => {
+		const [todo] = parseTodoTxt(
+			`(M) Write "report", today; ${"long ".repeat(12)}t:2024-02-01`,
+		);
+		const ics = exportICalendar(todo ? [todo] : [], {
+			timestamp,
+			uid: () => "task-1",
+		});
+
+		expect(ics).toContain('SUMMARY:Write "report"\\, today\\; long');
+		expect(ics).toContain("PRIORITY:9");
+		expect(ics).toContain("DTSTART;VALUE=DATE:20240201");
+		expect(ics).toContain("UID:task-1");
+		for (const line of ics.split("\r\n")) {
+			expect(line.length).toBeLessThanOrEqual(75);
+		}
+		expect(ics.replace(/\r\n /g, "")).toContain(
+			`X-TODOTXT-LINE:(M) Write "report"\\, today\\; ${"long ".repeat(12)}t:2024-02-01`,
+		);
+	});
+});
+
+describe("exportMarkdown", () => {
+	it("プロジェクトごとにチェックリストを作る", () => {
+		expect(exportMarkdown(todos)).toBe(
+			[
+				"## family",
+				"",
+				"- [ ] (A) 2024-01-01 Call Mom +family @phone due:2024-01-05",
+				"",
+				"## home",
+				"",
+				"- [x] 2024-01-03 Pay rent +home est:1h",
+				"",
+				"## work.docs",
+				"",
+				'- [ ] Write "report", today +work.docs due:2024-01-10 due:2024-01-12',
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("区切り文字で見出しを入れ子にし、プロジェクトのないタスクを最後に置く", () => {
+		const markdown = exportMarkdown(
+			parseTodoTxt("Plan +work\nDocs +work.docs\nBuy milk\n"),
+			{ separator: ".", headingLevel: 3, ungroupedHeading: "Inbox" },
+		);
+
+		expect(markdown).toBe(
+			"### work\n\n- [ ] Plan +work\n\n#### docs\n\n- [ ] Docs +work.docs\n\n### Inbox\n\n- [ ] Buy milk\n",
+		);
+	});
+
+	it("グループ化しない", () => {
+		expect(exportMarkdown(todos.slice(0, 2), { groupByProject: false })).toBe(
+			"- [ ] (A) 2024-01-01 Call Mom +family @phone due:2024-01-05\n- [x] 2024-01-03 Pay rent +home est:1h\n",
+		);
+		expect(() => exportMarkdown(todos, { headingLevel: 7 })).toThrow(
+			RangeError,
+		);
+	});
+});
@@ -0,0 +1,326 @@
+import { isValidDate } from "./date";
+import { editTokens } from "./mutations";
+import { serializeTodo } from "./parser";
+import { groupTodos } from "./report";
+import { getTagEntries, getTagValues } from "./tags";
+import type {
+	CsvColumn,
+	CsvExportOptions,
+	CsvField,
+	ICalendarExportOptions,
+	MarkdownExportOptions,
+	Todo,
+	TodoGroup,
+} from "./types";
+
+const DEFAULT_CSV_FIELDS: CsvField[] = [
+	"completed",
+	"priority",
+	"completionDate",
+	"creationDate",
+	"description",
+	"projects",
+	"contexts",
+];
+
+const CSV_FIELDS: Record<CsvField, CsvColumn["value"]> = {
+	completed: (todo) => todo.completed,
+	priority: (todo) => todo.priority,
+	completionDate: (todo) => todo.completionDate,
+	creationDate: (todo) => todo.creationDate,
+	description: (todo) => todo.description,
+	projects: (todo) => todo.projects.join(" "),
+	contexts: (todo) => todo.contexts.join(" "),
+	tags: (todo) =>
+		getTagEntries(todo)
+			.map(({ key, value }) => `${key}:${value}`)
+			.join(" "),
+	raw: (todo) => todo.raw,
+	line: (todo) => todo.line,
+	id: (todo) => todo.id,
+};
+
+/**
+ * Export todos as JSON lines (one JSON object per line)
+ *
+ * @param todos - Todos to export
+ * @returns JSON lines, each terminated by "\n"
+ *
+ * @example
+ * ```ts
+ * exportJsonLines(parseTodoTxt("Call Mom\n"));
+ * // '{"completed":false,"description":"Call Mom",...}\n'
+ * ```
+ */
+export function exportJsonLines(todos: Todo[]): string {
+	return todos.map((todo) => `${JSON.stringify(todo)}\n`).join("");
+}
+
+/**
+ * Export todos as CSV (RFC 4180)
+ *
+ * Cells containing the delimiter, quotes, line breaks or surrounding spaces
+ * are quoted. A tag column holds all values of its key, space-separated.
+ *
+ * @param todos - Todos to export
+ * @param options - Columns and format
+ * @returns CSV content, each record terminated by the newline
+ *
+ * @example
+ * ```ts
+ * exportCsv(todos, { columns: ["priority", "description", "tag:due"] });
+ * // "priority,description,due\r\nA,Call Mom due:2024-01-05,2024-01-05\r\n"
+ * ```
+ */
+export function exportCsv(
+	todos: Todo[],
+	options: CsvExportOptions = {},
+): string {
+	const { delimiter = ",", newline = "\r\n", header = true } = options;
+	const columns = (options.columns ?? defaultCsvColumns(todos)).map(
+		toCsvColumn,
+	);
+
+	const quote = (value: string | number | boolean | undefined): string => {
+		const text = value === undefined ? "" : String(value);
+		return text.includes(delimiter) ||
+			/["\r\n]/.test(text) ||
+			text !== text.trim()
+			? `"${text.replace(/"/g, '""')}"`
+			: text;
+	};
+
+	const rows = todos.map((todo) =>
+		columns.map((column) => quote(column.value(todo))),
+	);
+	if (header) {
+		rows.unshift(columns.map((column) => quote(column.header)));
+	}
+
+	return rows.map((row) => row.join(delimiter) + newline).join("");
+}
+
+/**
+ * Export todos as an iCalendar (RFC 5545) calendar of VTODO components
+ *
+ * Priorities A-H become PRIORITY 1-8 and later letters 9. The due tag
+ * becomes DUE and the threshold tag DTSTART (both as dates), completed tasks
+ * get STATUS:COMPLETED and COMPLETED, and projects and contexts become
+ * CATEGORIES with their `+`/`@` sigils. SUMMARY is the description without
+ * projects, contexts and tags; the whole line is kept in X-TODOTXT-LINE.
+ *
+ * @param todos - Todos to export
+ * @param options - Calendar options
+ * @returns iCalendar content with CRLF line endings and folded lines
+ *
+ * @example
+ * ```ts
+ * exportICalendar(parseTodoTxt("(A) Call Mom +family due:2024-01-05\n"));
+ * // BEGIN:VCALENDAR ... BEGIN:VTODO ... SUMMARY:Call Mom ... PRIORITY:1
+ * // DUE;VALUE=DATE:20240105 ... CATEGORIES:+family ... END:VTODO ... END:VCALENDAR
+ * ```
+ */
+export function exportICalendar(
+	todos: Todo[],
+	options: ICalendarExportOptions = {},
+): string {
+	const {
+		productId = "-//todotxt-parser//EN",
+		timestamp = new Date(),
+		uid = (todo: Todo, index: number) => `${todo.id ?? index}@todotxt`,
+		dueTag = "due",
+		thresholdTag = "t",
+	} = options;
+	const stamp = `${timestamp.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		`PRODID:${escapeText(productId)}`,
+	];
+
+	todos.forEach((todo, index) => {
+		lines.push(
+			"BEGIN:VTODO",
+			`UID:${escapeText(uid(todo, index))}`,
+			`DTSTAMP:${stamp}`,
+			`SUMMARY:${escapeText(summaryOf(todo))}`,
+			`STATUS:${todo.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+		);
+
+		if (todo.priority) {
+			const rank = todo.priority.charCodeAt(0) - "A".charCodeAt(0) + 1;
+			lines.push(`PRIORITY:${Math.min(rank, 9)}`);
+		}
+		const [due] = getTagValues(todo, dueTag).filter(isValidDate);
+		if (due) {
+			lines.push(`DUE;VALUE=DATE:${due.replace(/-/g, "")}`);
+		}
+		const [threshold] = getTagValues(todo, thresholdTag).filter(isValidDate);
+		if (threshold) {
+			lines.push(`DTSTART;VALUE=DATE:${threshold.replace(/-/g, "")}`);
+		}
+		if (todo.completed && todo.completionDate) {
+			// COMPLETED must be a UTC time; noon keeps the day in most time zones
+			lines.push(`COMPLETED:${todo.completionDate.replace(/-/g, "")}T120000Z`);
+		}
+
+		const categories = [
+			...todo.projects.map((project) => `+${project}`),
+			...todo.contexts.map((context) => `@${context}`),
+		];
+		if (categories.length > 0) {
+			lines.push(`CATEGORIES:${categories.map(escapeText).join(",")}`);
+		}
+
+		lines.push(
+			`X-TODOTXT-LINE:${escapeText(serializeTodo(todo))}`,
+			"END:VTODO",
+		);
+	});
+
+	lines.push("END:VCALENDAR");
+	return lines.map((line) => `${foldLine(line)}\r\n`).join("");
+}
+
+/**
+ * Export todos as a Markdown checklist
+ *
+ * Each task becomes a `- [ ]` item (`- [x]` when completed) holding its
+ * todo.txt line without the completion mark. By default items are grouped
+ * under a heading per project; a task with several projects is listed under
+ * each, and tasks without a project come last.
+ *
+ * @param todos - Todos to export
+ * @param options - Grouping options
+ * @returns Markdown content
+ *
+ * @example
+ * ```ts
+ * exportMarkdown(parseTodoTxt("(A) Call Mom +family\nx 2024-01-05 Pay rent\n"));
+ * // "## family\n\n- [ ] (A) Call Mom +family\n\n## No project\n\n- [x] 2024-01-05 Pay rent\n"
+ * ```
+ */
+export function exportMarkdown(
+	todos: Todo[],
+	options: MarkdownExportOptions = {},
+): string {
+	const {
+		groupByProject = true,
+		headingLevel = 2,
+		ungroupedHeading = "No project",
+		separator,
+	} = options;
+	if (!Number.isInteger(headingLevel) || headingLevel < 1 || headingLevel > 6) {
+		throw new RangeError(`Invalid heading level ${headingLevel}`);
+	}
+
+	if (!groupByProject) {
+		return checklist(todos);
+	}
+
+	const sections: string[] = [];
+	const addGroup = (group: TodoGroup, depth: number): void => {
+		const heading = "#".repeat(Math.min(headingLevel + depth, 6));
+		// A parent lists only the tasks that are in none of its subgroups
+		const nested = new Set(group.children.flatMap((child) => child.todos));
+		const own = group.todos.filter((todo) => !nested.has(todo));
+
+		sections.push(`${heading} ${group.name ?? ungroupedHeading}\n`);
+		if (own.length > 0) {
+			sections.push(checklist(own));
+		}
+		for (const child of group.children) {
+			addGroup(child, depth + 1);
+		}
+	};
+
+	for (const group of groupTodos(todos, { by: "project", separator })) {
+		addGroup(group, 0);
+	}
+
+	return sections.join("\n");
+}
+
+function defaultCsvColumns(
+	todos: Todo[],
+): NonNullable<CsvExportOptions["columns"]> {
+	const keys = new Set(
+		todos.flatMap((todo) => getTagEntries(todo).map((tag) => tag.key)),
+	);
+
+	return [
+		...DEFAULT_CSV_FIELDS,
+		...[...keys].map((key): `tag:${string}` => `tag:${key}`),
+	];
+}
+
+function toCsvColumn(
+	column: CsvField | `tag:${string}` | CsvColumn,
+): CsvColumn {
+	if (typeof column !== "string") {
+		return column;
+	}
+	if (column.startsWith("tag:")) {
+		const key = column.slice(4);
+		return {
+			header: key,
+			value: (todo) => getTagValues(todo, key).join(" ") || undefined,
+		};
+	}
+	if (!(column in CSV_FIELDS)) {
+		throw new RangeError(`Unknown CSV column "${column}"`);
+	}
+
+	return { header: column, value: CSV_FIELDS[column as CsvField] };
+}
+
+function summaryOf(todo: Todo): string {
+	const { description } = editTokens(todo, (token) =>
+		token.type === "project" || token.type === "context" || token.type === "tag"
+			? null
+			: undefined,
+	);
+
+	return description.trim() || todo.description;
+}
+
+// TEXT value escaping (RFC 5545 3.3.11)
+function escapeText(text: string): string {
+	return text
+		.replace(/\\/g, "\\\\")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,")
+		.replace(/\r?\n/g, "\\n");
+}
+
+// Fold content lines longer than 75 octets (RFC 5545 3.1)
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	const parts: string[] = [];
+	let current = "";
+	let size = 0;
+
+	for (const char of line) {
+		const length = encoder.encode(char).length;
+		const limit = parts.length === 0 ? 75 : 74;
+		if (size + length > limit) {
+			parts.push(current);
+			current = "";
+			size = 0;
+		}
+		current += char;
+		size += length;
+	}
+	parts.push(current);
+
+	return parts.join("\r\n ");
+}
+
+function checklist(todos: Todo[]): string {
+	return todos
+		.map((todo) => {
+			const line = serializeTodo(todo);
+			return todo.completed ? `- [x] ${line.slice(2)}\n` : `- [ ] ${line}\n`;
+		})
+		.join("");
+}
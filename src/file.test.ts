@@ -0,0 +1,148 @@
+import { type FSWatcher, watch } from "node:fs";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TodoFileConflictError } from "./errors";
+import { TodoFile } from "./file";
+import { parseTodoLine } from "./parser";
+
+vi.mock("node:fs", async (importOriginal) => {
+	const fs = await importOriginal<typeof import("node:fs")>();
+	return { ...fs, watch: vi.fn(fs.watch) };
+});
+
+describe("TodoFile", () => {
+	let dir: string;
+	let path: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "todotxt-"));
+		path = join(dir, "todo.txt");
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("ファイルを読み込んでタスクを取得する", async () => {
+		await writeFile(path, "(A) Call Mom\n\nBuy milk\n");
+		const file = await TodoFile.open(path);
+
+		expect(file.content).toBe("(A) Call Mom\n\nBuy milk\n");
+		expect(file.todos.map((todo) => todo.description)).toEqual([
+			"Call Mom",
+			"Buy milk",
+		]);
+		expect(file.document.lines).toHaveLength(3);
+	});
+
+	it("存在しないファイルは空として扱い、書き込み時に作成する", async () => {
+		const file = await TodoFile.open(path);
+		expect(file.content).toBe("");
+
+		await file.appendTask(parseTodoLine("Call Mom"));
+
+		expect(await readFile(path, "utf8")).toBe("Call Mom");
+	});
+
+	it("操作を適用して一時ファイルを残さずに書き込む", async () => {
+		await writeFile(path, "Task 1\nTask 2\n");
+		const file = await TodoFile.open(path);
+
+		await file.updateTaskAtLine(1, parseTodoLine("Task 2 +work"));
+		await file.deleteTaskAtLine(0);
+		const content = await file.update((current) => `${current}Task 3\n`);
+
+		expect(content).toBe("Task 2 +work\nTask 3\n");
+		expect(await readFile(path, "utf8")).toBe(content);
+		expect(await readdir(dir)).toEqual(["todo.txt"]);
+	});
+
+	it("並行した操作を順番に適用する", async () => {
+		const file = await TodoFile.open(path);
+
+		await Promise.all([
+			file.appendTask(parseTodoLine("Task 1")),
+			file.appendTask(parseTodoLine("Task 2")),
+			file.appendTask(parseTodoLine("Task 3")),
+		]);
+
+		expect(await readFile(path, "utf8")).toBe("Task 1\nTask 2\nTask 3");
+	});
+
+	it("外部での変更を検出して書き込みを拒否する", async () => {
+		await writeFile(path, "Task 1\n");
+		const file = await TodoFile.open(path);
+
+		await writeFile(path, "Task 1\nExternal\n");
+
+		expect(await file.isModifiedExternally()).toBe(true);
+		await expect(file.appendTask(parseTodoLine("Mine"))).rejects.toThrow(
+			TodoFileConflictError,
+		);
+		expect(await readFile(path, "utf8")).toBe("Task 1\nExternal\n");
+
+		expect(await file.reload()).toBe(true);
+		await file.appendTask(parseTodoLine("Mine"));
+		expect(await readFile(path, "utf8")).toBe("Task 1\nExternal\nMine\n");
+	});
+
+	it("内容が同じなら時刻の変化は競合にしない", async () => {
+		await writeFile(path, "Task 1\n");
+		const file = await TodoFile.open(path);
+
+		await writeFile(path, "Task 1\n");
+
+		expect(await file.isModifiedExternally()).toBe(false);
+		await file.appendTask(parseTodoLine("Task 2"));
+		expect(await readFile(path, "utf8")).toBe("Task 1\nTask 2\n");
+	});
+
+	it("forceで外部の変更を上書きする", async () => {
+		await writeFile(path, "Task 1\n");
+		const file = await TodoFile.open(path, { force: true });
+
+		await writeFile(path, "External\n");
+		await file.appendTask(parseTodoLine("Task 2"));
+
+		expect(await readFile(path, "utf8")).toBe("Task 1\nTask 2\n");
+	});
+
+	it("外部の変更を監視して再読み込みする", async () => {
+		await writeFile(path, "Task 1\n");
+		const file = await TodoFile.open(path);
+
+		const changed = new Promise<string>((resolve, reject) => {
+			const timer = setTimeout(() => reject(new Error("timeout")), 3000);
+			const stop = file.watch((current) => {
+				clearTimeout(timer);
+				stop();
+				resolve(current.content);
+			});
+		});
+		await writeFile(path, "Task 1\nExternal\n");
+
+		expect(await changed).toBe("Task 1\nExternal\n");
+		expect(await file.isModifiedExternally()).toBe(false);
+	});
+
+	it("監視のエラーはonErrorに渡して監視を止める", async () => {
+		const file = await TodoFile.open(path);
+		const errors: unknown[] = [];
+		file.watch(
+			() => {},
+			(error) => errors.push(error),
+		);
+
+		const watcher: FSWatcher = vi.mocked(watch).mock.results.at(-1)?.value;
+		const closed = new Promise((resolve) => watcher.once("close", resolve));
+		const error = Object.assign(new Error("operation not permitted"), {
+			code: "EPERM",
+		});
+		watcher.emit("error", error);
+
+		await closed;
+		expect(errors).toEqual([error]);
+	});
+});
@@ -0,0 +1,317 @@
+import { createHash, randomBytes } from "node:crypto";
+import { watch as watchDirectory } from "node:fs";
+import { readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { TodoFileConflictError } from "./errors";
+import {
+	appendTaskToFile,
+	deleteTaskAtLine,
+	deleteTaskById,
+	parseTodoDocument,
+	parseTodoTxt,
+	updateTaskAtLine,
+	updateTaskById,
+} from "./parser";
+import type { Todo, TodoDocument, TodoFileOptions } from "./types";
+
+interface FileState {
+	content: string;
+	hash: string;
+	/** Modification time in milliseconds, undefined if the file does not exist */
+	mtimeMs?: number;
+	mode?: number;
+}
+
+/**
+ * A todo.txt file on disk
+ *
+ * Operations re-check the file before writing: if another process changed it
+ * since it was loaded (its modification time moved and its content hash
+ * differs), the write is refused with `TodoFileConflictError`. Writes go to a
+ * temporary file in the same directory that is then renamed over the target,
+ * so readers never see a partially written file. Operations on one instance
+ * run one at a time, in call order.
+ *
+ * @example
+ * ```ts
+ * import { TodoFile } from "@wagomu/todotxt-parser/node";
+ *
+ * const file = await TodoFile.open("todo.txt");
+ * await file.appendTask(parseTodoLine("Call Mom"));
+ * const stop = file.watch(() => console.log(file.todos));
+ * ```
+ */
+export class TodoFile {
+	/** Path of the file */
+	readonly path: string;
+	private readonly options: TodoFileOptions;
+	private state: FileState;
+	private queue: Promise<unknown> = Promise.resolve();
+
+	private constructor(
+		path: string,
+		state: FileState,
+		options: TodoFileOptions,
+	) {
+		this.path = path;
+		this.state = state;
+		this.options = options;
+	}
+
+	/**
+	 * Load a todo.txt file (a missing file is empty and created on first write)
+	 *
+	 * @param path - File path
+	 * @param options - Document and write options
+	 * @returns Loaded file
+	 */
+	static async open(
+		path: string,
+		options: TodoFileOptions = {},
+	): Promise<TodoFile> {
+		return new TodoFile(path, await readState(path), options);
+	}
+
+	/** Content as last loaded or written */
+	get content(): string {
+		return this.state.content;
+	}
+
+	/** Parsed tasks of the content */
+	get todos(): Todo[] {
+		return parseTodoTxt(this.state.content, this.options);
+	}
+
+	/** Lossless document of the content */
+	get document(): TodoDocument {
+		return parseTodoDocument(this.state.content, this.options);
+	}
+
+	/**
+	 * Re-read the file from disk
+	 *
+	 * @returns true if the content changed
+	 */
+	reload(): Promise<boolean> {
+		return this.enqueue(async () => {
+			const next = await readState(this.path);
+			const changed = next.hash !== this.state.hash;
+			this.state = next;
+			return changed;
+		});
+	}
+
+	/**
+	 * Check whether another process changed the file since it was loaded
+	 *
+	 * @returns true if the content on disk differs
+	 */
+	isModifiedExternally(): Promise<boolean> {
+		return this.enqueue(() => this.hasExternalChange());
+	}
+
+	/**
+	 * Apply an operation to the content and write the result
+	 *
+	 * @param operation - Function from the current content to the new content,
+	 * such as one of the string helpers of the core package
+	 * @returns New content
+	 * @throws {TodoFileConflictError} If the file changed on disk since it was loaded
+	 *
+	 * @example
+	 * ```ts
+	 * await file.update((content) => sortTodoTxt(content, ["priority"]));
+	 * ```
+	 */
+	update(operation: (content: string) => string): Promise<string> {
+		return this.enqueue(async () => {
+			if (!this.options.force && (await this.hasExternalChange())) {
+				throw new TodoFileConflictError(this.path);
+			}
+
+			const content = operation(this.state.content);
+			if (content !== this.state.content) {
+				await this.write(content);
+			}
+			return content;
+		});
+	}
+
+	/**
+	 * Append a task (see `appendTaskToFile`)
+	 *
+	 * @param todo - Task to append
+	 * @returns New content
+	 * @throws {TodoFileConflictError} If the file changed on disk since it was loaded
+	 */
+	appendTask(todo: Todo): Promise<string> {
+		return this.update((content) => appendTaskToFile(content, todo));
+	}
+
+	/**
+	 * Replace the n-th task (see `updateTaskAtLine`)
+	 *
+	 * @param index - Zero-based index among tasks
+	 * @param todo - New task
+	 * @returns New content
+	 * @throws {TodoFileConflictError} If the file changed on disk since it was loaded
+	 */
+	updateTaskAtLine(index: number, todo: Todo): Promise<string> {
+		return this.update((content) => updateTaskAtLine(content, index, todo));
+	}
+
+	/**
+	 * Delete the n-th task (see `deleteTaskAtLine`)
+	 *
+	 * @param index - Zero-based index among tasks
+	 * @returns New content
+	 * @throws {TodoFileConflictError} If the file changed on disk since it was loaded
+	 */
+	deleteTaskAtLine(index: number): Promise<string> {
+		return this.update((content) => deleteTaskAtLine(content, index));
+	}
+
+	/**
+	 * Replace a task by id (see `updateTaskById`)
+	 *
+	 * @param id - Task id
+	 * @param todo - New task
+	 * @returns New content
+	 * @throws {TodoFileConflictError} If the file changed on disk since it was loaded
+	 */
+	updateTaskById(id: string, todo: Todo): Promise<string> {
+		return this.update((content) => updateTaskById(content, id, todo));
+	}
+
+	/**
+	 * Delete a task by id (see `deleteTaskById`)
+	 *
+	 * @param id - Task id
+	 * @returns New content
+	 * @throws {TodoFileConflictError} If the file changed on disk since it was loaded
+	 */
+	deleteTaskById(id: string): Promise<string> {
+		return this.update((content) => deleteTaskById(content, id));
+	}
+
+	/**
+	 * Watch the file for changes made by other processes
+	 *
+	 * The containing directory is watched, so files replaced by rename (as
+	 * editors and this class do) keep being followed. The content is reloaded
+	 * before the listener runs; writes through this instance do not notify.
+	 *
+	 * @param listener - Called after the file was reloaded with new content
+	 * @param onError - Called when reloading fails, or when watching fails
+	 *   (watching then stops)
+	 * @returns Function that stops watching
+	 */
+	watch(
+		listener: (file: TodoFile) => void,
+		onError: (error: unknown) => void = () => {},
+	): () => void {
+		const name = basename(this.path);
+		const watcher = watchDirectory(dirname(this.path), (_, filename) => {
+			if (filename !== null && filename !== name) {
+				return;
+			}
+			this.reload().then((changed) => {
+				if (changed) {
+					listener(this);
+				}
+			}, onError);
+		});
+		// Emitted when the directory can no longer be watched (e.g. EPERM)
+		watcher.on("error", (error) => {
+			watcher.close();
+			onError(error);
+		});
+
+		return () => watcher.close();
+	}
+
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const result = this.queue.then(task);
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	private async hasExternalChange(): Promise<boolean> {
+		const mtimeMs = await statMtime(this.path);
+		if (mtimeMs === this.state.mtimeMs) {
+			return false;
+		}
+
+		// The time moved (or the file appeared or vanished): compare content
+		const current = await readState(this.path);
+		if (current.hash !== this.state.hash) {
+			return true;
+		}
+
+		this.state = current;
+		return false;
+	}
+
+	private async write(content: string): Promise<void> {
+		const temp = join(
+			dirname(this.path),
+			`.${basename(this.path)}.${randomBytes(6).toString("hex")}.tmp`,
+		);
+
+		try {
+			await writeFile(temp, content, { mode: this.state.mode ?? 0o666 });
+			await rename(temp, this.path);
+		} catch (error) {
+			await unlink(temp).catch(() => undefined);
+			throw error;
+		}
+
+		this.state = {
+			content,
+			hash: hashContent(content),
+			mtimeMs: await statMtime(this.path),
+			mode: this.state.mode,
+		};
+	}
+}
+
+async function readState(path: string): Promise<FileState> {
+	try {
+		const [content, info] = await Promise.all([
+			readFile(path, "utf8"),
+			stat(path),
+		]);
+		return {
+			content,
+			hash: hashContent(content),
+			mtimeMs: info.mtimeMs,
+			mode: info.mode & 0o777,
+		};
+	} catch (error) {
+		if (isMissing(error)) {
+			return { content: "", hash: hashContent("") };
+		}
+		throw error;
+	}
+}
+
+async function statMtime(path: string): Promise<number | undefined> {
+	try {
+		return (await stat(path)).mtimeMs;
+	} catch (error) {
+		if (isMissing(error)) {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+function hashContent(content: string): string {
+	return createHash("sha256").update(content).digest("hex");
+}
+
+function isMissing(error: unknown): boolean {
+	return (
+		error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT"
+	);
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+	isInContext,
+	isInProject,
+	listContextTree,
+	listProjectTree,
+	renameContextSubtree,
+	renameProjectSubtree,
+	splitHierarchy,
+} from "./hierarchy";
+import { parseTodoLine, parseTodoTxt } from "./parser";
+
+describe("splitHierarchy", () => {
+	it("区切り文字で分割し空のセグメントを除く", () => {
+		expect(splitHierarchy("work.backend.api", ".")).toEqual([
+			"work",
+			"backend",
+			"api",
+		]);
+		expect(splitHierarchy("work//backend/", "/")).toEqual(["work", "backend"]);
+		expect(splitHierarchy("..", ".")).toEqual([".."]);
+	});
+});
+
+describe("listProjectTree", () => {
+	it("プロジェクト名をツリーにして件数を数える", () => {
+		const todos = parseTodoTxt(
+			"A +work.backend.api\nB +work.frontend +work.backend\nC +home",
+		);
+
+		expect(listProjectTree(todos)).toEqual([
+			{ name: "home", path: "home", count: 1, children: [] },
+			{
+				name: "work",
+				path: "work",
+				count: 2,
+				children: [
+					{
+						name: "backend",
+						path: "work.backend",
+						count: 2,
+						children: [
+							{
+								name: "api",
+								path: "work.backend.api",
+								count: 1,
+								children: [],
+							},
+						],
+					},
+					{
+						name: "frontend",
+						path: "work.frontend",
+						count: 1,
+						children: [],
+					},
+				],
+			},
+		]);
+	});
+
+	it("区切り文字を変更できる", () => {
+		const tree = listContextTree(parseTodoTxt("A @home/kitchen\nB @home"), {
+			separator: "/",
+		});
+
+		expect(tree).toHaveLength(1);
+		expect(tree[0]?.count).toBe(2);
+		expect(tree[0]?.children[0]?.path).toBe("home/kitchen");
+	});
+});
+
+describe("isInProject / isInContext", () => {
+	it("祖先プロジェクトにマッチする", () => {
+		const todo = parseTodoLine("Task +work.backend.api @office.desk");
+
+		expect(isInProject(todo, "work")).toBe(true);
+		expect(isInProject(todo, "work.backend")).toBe(true);
+		expect(isInProject(todo, "work.backend.api")).toBe(true);
+		expect(isInProject(todo, "work.frontend")).toBe(false);
+		expect(isInContext(todo, "office")).toBe(true);
+	});
+
+	it("名前の前方一致だけではマッチしない", () => {
+		expect(isInProject(parseTodoLine("Task +workshop"), "work")).toBe(false);
+		expect(
+			isInProject(parseTodoLine("Task +work.api"), "work", { separator: "/" }),
+		).toBe(false);
+	});
+});
+
+describe("renameProjectSubtree / renameContextSubtree", () => {
+	it("サブツリー全体をファイル全体でリネームする", () => {
+		const content =
+			"A +work.backend +work.backend.api\n\nB +work +workshop\nC +home\n";
+
+		expect(renameProjectSubtree(content, "work", "job")).toBe(
+			"A +job.backend +job.backend.api\n\nB +job +workshop\nC +home\n",
+		);
+		expect(renameProjectSubtree(content, "work.backend", "work.server")).toBe(
+			"A +work.server +work.server.api\n\nB +work +workshop\nC +home\n",
+		);
+	});
+
+	it("自分のサブツリーへのリネームで二重に変更しない", () => {
+		expect(renameProjectSubtree("T +a +a.b", "a", "a.b")).toBe("T +a.b +a.b.b");
+		expect(renameProjectSubtree("T +a.b +a", "a.b", "a")).toBe("T +a +a");
+	});
+
+	it("該当なしなら元の内容を返す", () => {
+		const content = "A +home\r\nB";
+
+		expect(renameProjectSubtree(content, "work", "job")).toBe(content);
+	});
+
+	it("コンテキストも区切り文字を指定してリネームする", () => {
+		expect(
+			renameContextSubtree("A @home/kitchen @office", "home", "house", {
+				separator: "/",
+			}),
+		).toBe("A @house/kitchen @office");
+	});
+
+	it("空白を含む名前はRangeError", () => {
+		expect(() => renameProjectSubtree("A +work", "work", "a b")).toThrow(
+			RangeError,
+		);
+		expect(() => renameProjectSubtree("A +work", "", "job")).toThrow(
+			RangeError,
+		);
+	});
+});
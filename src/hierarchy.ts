@@ -0,0 +1,270 @@
+import { editTokens } from "./mutations";
+import {
+	parseTodoDocument,
+	serializeTodoDocument,
+	setDocumentTask,
+} from "./parser";
+import type { HierarchyNode, HierarchyOptions, Todo } from "./types";
+
+type NameKind = "project" | "context";
+
+interface NameNode {
+	name: string;
+	path: string;
+	todos: Set<Todo>;
+	children: Map<string, NameNode>;
+}
+
+const DEFAULT_SEPARATOR = ".";
+
+/**
+ * Split a hierarchical name into its segments
+ *
+ * Empty segments are dropped, so "work..api" and "work.api" are the same path.
+ *
+ * @param name - Project or context name
+ * @param separator - Segment separator
+ * @returns Segments (the whole name if it has no non-empty segment)
+ */
+export function splitHierarchy(name: string, separator: string): string[] {
+	const segments = name
+		.split(separator)
+		.filter((segment) => segment.length > 0);
+	return segments.length > 0 ? segments : [name];
+}
+
+/**
+ * List the project names of todos as a tree
+ *
+ * @param todos - Todos to read
+ * @param options - Hierarchy options
+ * @returns Top-level nodes sorted by name
+ *
+ * @example
+ * ```ts
+ * listProjectTree(parseTodoTxt("A +work.backend.api\nB +work.frontend"));
+ * // [{ name: "work", path: "work", count: 2, children: [
+ * //   { name: "backend", path: "work.backend", count: 1, children: [...] },
+ * //   { name: "frontend", path: "work.frontend", count: 1, children: [] }
+ * // ] }]
+ * ```
+ */
+export function listProjectTree(
+	todos: Todo[],
+	options: HierarchyOptions = {},
+): HierarchyNode[] {
+	return listTree(todos, "project", options);
+}
+
+/**
+ * List the context names of todos as a tree
+ *
+ * @param todos - Todos to read
+ * @param options - Hierarchy options
+ * @returns Top-level nodes sorted by name
+ */
+export function listContextTree(
+	todos: Todo[],
+	options: HierarchyOptions = {},
+): HierarchyNode[] {
+	return listTree(todos, "context", options);
+}
+
+/**
+ * Check whether a todo is in a project or one of its subprojects
+ *
+ * @param todo - Todo to check
+ * @param ancestor - Project name without "+"
+ * @param options - Hierarchy options
+ * @returns true if a project of the todo is `ancestor` or below it
+ *
+ * @example
+ * ```ts
+ * isInProject(parseTodoLine("Task +work.backend"), "work"); // true
+ * isInProject(parseTodoLine("Task +workshop"), "work"); // false
+ * ```
+ */
+export function isInProject(
+	todo: Todo,
+	ancestor: string,
+	options: HierarchyOptions = {},
+): boolean {
+	return todo.projects.some((name) => isDescendant(name, ancestor, options));
+}
+
+/**
+ * Check whether a todo is in a context or one of its subcontexts
+ *
+ * @param todo - Todo to check
+ * @param ancestor - Context name without "@"
+ * @param options - Hierarchy options
+ * @returns true if a context of the todo is `ancestor` or below it
+ */
+export function isInContext(
+	todo: Todo,
+	ancestor: string,
+	options: HierarchyOptions = {},
+): boolean {
+	return todo.contexts.some((name) => isDescendant(name, ancestor, options));
+}
+
+/**
+ * Rename a project and every project below it in all tasks of the content
+ *
+ * @param content - File content
+ * @param from - Current project name without "+"
+ * @param to - New project name without "+"
+ * @param options - Hierarchy options
+ * @returns Updated file content
+ * @throws {RangeError} If a name is empty or contains whitespace
+ *
+ * @example
+ * ```ts
+ * renameProjectSubtree("A +work.backend\nB +work", "work", "job");
+ * // "A +job.backend\nB +job"
+ * ```
+ */
+export function renameProjectSubtree(
+	content: string,
+	from: string,
+	to: string,
+	options: HierarchyOptions = {},
+): string {
+	return renameSubtree(content, from, to, "project", options);
+}
+
+/**
+ * Rename a context and every context below it in all tasks of the content
+ *
+ * @param content - File content
+ * @param from - Current context name without "@"
+ * @param to - New context name without "@"
+ * @param options - Hierarchy options
+ * @returns Updated file content
+ * @throws {RangeError} If a name is empty or contains whitespace
+ */
+export function renameContextSubtree(
+	content: string,
+	from: string,
+	to: string,
+	options: HierarchyOptions = {},
+): string {
+	return renameSubtree(content, from, to, "context", options);
+}
+
+function isDescendant(
+	name: string,
+	ancestor: string,
+	{ separator = DEFAULT_SEPARATOR }: HierarchyOptions,
+): boolean {
+	const path = splitHierarchy(name, separator);
+	const prefix = splitHierarchy(ancestor, separator);
+
+	return (
+		prefix.length <= path.length &&
+		prefix.every((segment, index) => path[index] === segment)
+	);
+}
+
+function listTree(
+	todos: Todo[],
+	kind: NameKind,
+	{ separator = DEFAULT_SEPARATOR }: HierarchyOptions,
+): HierarchyNode[] {
+	const root: NameNode = {
+		name: "",
+		path: "",
+		todos: new Set(),
+		children: new Map(),
+	};
+
+	for (const todo of todos) {
+		for (const name of kind === "project" ? todo.projects : todo.contexts) {
+			let node = root;
+			for (const segment of splitHierarchy(name, separator)) {
+				const path =
+					node === root ? segment : `${node.path}${separator}${segment}`;
+				let child = node.children.get(segment);
+				if (!child) {
+					child = {
+						name: segment,
+						path,
+						todos: new Set(),
+						children: new Map(),
+					};
+					node.children.set(segment, child);
+				}
+				child.todos.add(todo);
+				node = child;
+			}
+		}
+	}
+
+	return toNodes(root);
+}
+
+function toNodes(node: NameNode): HierarchyNode[] {
+	return [...node.children.values()]
+		.sort((a, b) =>
+			a.name.localeCompare(b.name, undefined, {
+				numeric: true,
+				sensitivity: "base",
+			}),
+		)
+		.map((child) => ({
+			name: child.name,
+			path: child.path,
+			count: child.todos.size,
+			children: toNodes(child),
+		}));
+}
+
+function renameSubtree(
+	content: string,
+	from: string,
+	to: string,
+	kind: NameKind,
+	options: HierarchyOptions,
+): string {
+	for (const name of [from, to]) {
+		if (!/^\S+$/.test(name)) {
+			throw new RangeError(`Invalid ${kind} name "${name}"`);
+		}
+	}
+
+	const { separator = DEFAULT_SEPARATOR } = options;
+	const depth = splitHierarchy(from, separator).length;
+	const sigil = kind === "project" ? "+" : "@";
+	const original = parseTodoDocument(content, options);
+	let doc = original;
+
+	original.lines.forEach((line, index) => {
+		if (!line.todo) {
+			return;
+		}
+
+		// One pass over the original tokens, so a name renamed into its own
+		// subtree is not renamed again
+		const todo = editTokens(
+			line.todo,
+			(token) => {
+				if (
+					token.type !== kind ||
+					token.value === undefined ||
+					!isDescendant(token.value, from, options)
+				) {
+					return undefined;
+				}
+				const rest = splitHierarchy(token.value, separator).slice(depth);
+				return `${sigil}${[to, ...rest].join(separator)}`;
+			},
+			options,
+		);
+
+		if (todo !== line.todo) {
+			doc = setDocumentTask(doc, index, todo);
+		}
+	});
+
+	return doc === original ? content : serializeTodoDocument(doc);
+}
@@ -0,0 +1,339 @@
+import { describe, expect, it } from "vitest";
+import { exportCsv, exportICalendar, exportMarkdown } from "./export";
+import { importCsv, importICalendar, importMarkdown } from "./import";
+import { parseTodoTxt } from "./parser";
+
+const content = [
+	"(A) 2024-01-01 Call Mom +family @phone due:2024-01-05",
+	"x 2024-01-03 2024-01-01 Pay rent +home est:1h",
+	'Write "report", today +work.docs due:2024-01-10',
+	"",
+].join("\n");
+
+describe("importICalendar", () => {
+	it("exportICalendarの出力を元の行に戻す", () => {
+		const result = importICalendar(exportICalendar(parseTodoTxt(content)));
+
+		expect(result.content).toBe(content);
+		expect(result.issues).toEqual([]);
+	});
+
+	it("他のツールのVTODOを変換する", () => {
+		const ics = [
+			"BEGIN:VCALENDAR",
+			"BEGIN:VTODO",
+			"UID:1",
+			"SUMMARY:Review the quarterly\\, and annual",
+			"  numbers",
+			"PRIORITY:2",
+			"STATUS:COMPLETED",
+			"COMPLETED:20240110T153000Z",
+			"CREATED:20240102T080000Z",
+			"DUE;TZID=Europe/Berlin:20240112T170000",
+			"CATEGORIES:Finance,@office,Big Project",
+			"RRULE:FREQ=MONTHLY;INTERVAL=3",
+			"END:VTODO",
+			"BEGIN:VTODO",
+			"SUMMARY:Buy milk",
+			"LOCATION:Shop",
+			"DESCRIPTION:Full fat\\nor oat",
+			"RRULE:FREQ=WEEKLY;BYDAY=MO",
+			"BEGIN:VALARM",
+			"TRIGGER:-PT15M",
+			"END:VALARM",
+			"END:VTODO",
+			"END:VCALENDAR",
+		].join("\r\n");
+
+		const result = importICalendar(ics);
+
+		expect(result.content).toBe(
+			[
+				"x 2024-01-10 2024-01-02 Review the quarterly, and annual numbers due:2024-01-12 +Finance @office +Big-Project rec:3m pri:B",
+				"Buy milk",
+				"",
+			].join("\n"),
+		);
+		expect(result.issues).toEqual([
+			{
+				record: 1,
+				field: "VALARM",
+				value: "",
+				message: "VALARM components are not imported",
+			},
+			{
+				record: 1,
+				field: "LOCATION",
+				value: "Shop",
+				message: "No mapping for LOCATION",
+			},
+			{
+				record: 1,
+				field: "DESCRIPTION",
+				value: "Full fat\nor oat",
+				message: "No mapping for DESCRIPTION",
+			},
+			{
+				record: 1,
+				field: "RRULE",
+				value: "FREQ=WEEKLY;BYDAY=MO",
+				message:
+					'Recurrence rule "FREQ=WEEKLY;BYDAY=MO" has no todo.txt equivalent',
+			},
+		]);
+	});
+
+	it("完了したVTODOの優先度はpri:タグに移す", () => {
+		const ics = [
+			"BEGIN:VTODO",
+			"SUMMARY:Call Mom",
+			"STATUS:COMPLETED",
+			"PRIORITY:1",
+			"COMPLETED:20240105T120000Z",
+			"CREATED:20240101T080000Z",
+			"END:VTODO",
+		].join("\r\n");
+
+		expect(importICalendar(ics).content).toBe(
+			"x 2024-01-05 2024-01-01 Call Mom pri:A\n",
+		);
+	});
+
+	it("マッピングで変換先を変える", () => {
+		const ics =
+			"BEGIN:VTODO\r\nSUMMARY:Buy milk\r\nlocation:Shop\r\nDESCRIPTION:Note\r\nSTATUS:CANCELLED\r\nEND:VTODO\r\n";
+
+		const result = importICalendar(ics, {
+			fields: {
+				LOCATION: "tag:at",
+				description: "ignore",
+				STATUS: (value, todo) =>
+					value === "CANCELLED" ? { ...todo, completed: true } : todo,
+			},
+		});
+
+		expect(result.content).toBe("x Buy milk at:Shop\n");
+		expect(result.issues).toEqual([]);
+	});
+});
+
+describe("importCsv", () => {
+	it("exportCsvの出力を元の行に戻す", () => {
+		const todos = parseTodoTxt(content);
+
+		expect(importCsv(exportCsv(todos)).content).toBe(content);
+		expect(importCsv(exportCsv(todos, { columns: ["raw"] })).content).toBe(
+			content,
+		);
+	});
+
+	it("列のマッピングと変換できない値の報告", () => {
+		const csv = [
+			"Title;Done;Due;Priority;Notes;Tags",
+			'"Call Mom; soon";no;20240105;high;x;"est:1h bad"',
+			";yes;;;;",
+			"Pay rent;maybe;2024-02-30;1;;",
+		].join("\n");
+
+		const result = importCsv(csv, {
+			delimiter: ";",
+			columns: {
+				Title: "description",
+				Done: "completed",
+				Due: "tag:due",
+				Priority: "priority",
+				Tags: "tags",
+			},
+			otherColumnsAsTags: false,
+		});
+
+		expect(result.content).toBe(
+			"Call Mom; soon due:2024-01-05 est:1h\n(A) Pay rent due:2024-02-30\n",
+		);
+		expect(result.issues).toEqual([
+			{
+				record: 0,
+				field: "Priority",
+				value: "high",
+				message: '"high" is not a priority',
+			},
+			{
+				record: 0,
+				field: "Notes",
+				value: "x",
+				message: "No mapping for Notes",
+			},
+			{
+				record: 0,
+				field: "Tags",
+				value: "est:1h bad",
+				message: '"bad" is not a key:value tag',
+			},
+			{
+				record: 1,
+				field: "",
+				value: "",
+				message: "Record has no description and was skipped",
+			},
+			{
+				record: 2,
+				field: "Done",
+				value: "maybe",
+				message: '"maybe" is not a completion state',
+			},
+		]);
+	});
+
+	it("完了日のない完了タスクは作成日を落として報告する", () => {
+		const result = importCsv(
+			"description,completed,creationDate\nCall Mom,true,2024-01-01\n",
+		);
+
+		expect(result.content).toBe("x Call Mom\n");
+		expect(result.issues[0]?.field).toBe("creationDate");
+	});
+
+	it("未完了タスクの完了日は落として報告する", () => {
+		const result = importCsv(
+			"description,completed,completionDate\nCall Mom,false,2024-01-05\n",
+		);
+
+		expect(result.content).toBe("Call Mom\n");
+		expect(result.issues).toEqual([
+			{
+				record: 0,
+				field: "completionDate",
+				value: "2024-01-05",
+				message: "A task that is not completed cannot keep its completion date",
+			},
+		]);
+	});
+
+	it("タグとして読まれない語は報告する", () => {
+		const result = importCsv("description,tags,at\nMeet,10:30,10:30\n", {
+			columns: { at: "tag:10" },
+		});
+
+		expect(result.content).toBe("Meet\n");
+		expect(result.issues.map((issue) => issue.message)).toEqual([
+			'"10:30" is not a key:value tag',
+			'"10:10:30" would not be read as a tag',
+		]);
+	});
+
+	it("完了タスクの優先度はpri:タグに移す", () => {
+		const result = importCsv(
+			"description,completed,priority,completionDate\nCall Mom,true,A,2024-01-05\n",
+		);
+
+		expect(result.content).toBe("x 2024-01-05 Call Mom pri:A\n");
+		expect(result.issues).toEqual([]);
+	});
+
+	it("区切り文字と改行を含むセル", () => {
+		const result = importCsv('description\r\n"Call\r\nMom"\r\n');
+
+		expect(result.content).toBe("Call Mom\n");
+		expect(result.issues[0]?.message).toBe(
+			"Line breaks were replaced by spaces",
+		);
+	});
+});
+
+describe("importMarkdown", () => {
+	it("exportMarkdownの出力を元の行に戻す", () => {
+		const todos = parseTodoTxt(content);
+		const result = importMarkdown(
+			exportMarkdown(todos, { groupByProject: false }),
+		);
+
+		expect(result.content).toBe(content);
+		expect(importMarkdown(exportMarkdown(todos)).content).toBe(content);
+	});
+
+	it("完了マークで始まる未完了の項目は完了タスクにせず報告する", () => {
+		const result = importMarkdown("- [ ] x marks the spot\n- [ ] Buy milk\n");
+
+		expect(result.content).toBe("Buy milk\n");
+		expect(result.issues).toEqual([
+			{
+				record: 0,
+				field: "item",
+				value: "x marks the spot",
+				message:
+					"An unchecked item starting with a completion mark cannot stay open",
+			},
+			{
+				record: 0,
+				field: "",
+				value: "",
+				message: "Record has no description and was skipped",
+			},
+		]);
+	});
+
+	it("完了した項目の優先度はpri:タグに移し、既にあれば報告する", () => {
+		const result = importMarkdown(
+			"- [x] (A) Call Mom\n- [x] (B) Pay rent pri:C\n",
+		);
+
+		expect(result.content).toBe("x Call Mom pri:A\nx Pay rent pri:C\n");
+		expect(result.issues).toEqual([
+			{
+				record: 1,
+				field: "priority",
+				value: "B",
+				message:
+					"A completed task cannot keep its priority and already has a pri: tag",
+			},
+		]);
+	});
+
+	it("GitHubのタスクリストを読む", () => {
+		const markdown = [
+			"# Groceries",
+			"",
+			"Some text",
+			"- [ ] Buy milk",
+			"* [X] Buy bread",
+			"1. [ ] Buy eggs +breakfast",
+			"  - [ ] Check the date",
+			"- not a task",
+			"",
+			"```md",
+			"- [ ] In a code block",
+			"```",
+			"",
+			"## Home Office",
+			"- [x] x 2024-01-05 Order chair",
+		].join("\n");
+
+		expect(importMarkdown(markdown).content).toBe(
+			[
+				"Buy milk",
+				"x Buy bread",
+				"Buy eggs +breakfast",
+				"Check the date",
+				"x 2024-01-05 Order chair",
+				"",
+			].join("\n"),
+		);
+
+		const result = importMarkdown(markdown, { headingsAsProjects: true });
+		expect(result.todos.map((todo) => todo.projects)).toEqual([
+			["Groceries"],
+			["Groceries"],
+			["breakfast", "Groceries"],
+			["Groceries"],
+			["Home-Office"],
+		]);
+		expect(result.issues).toEqual([
+			{
+				record: 3,
+				field: "item",
+				value: "Check the date",
+				message: "Nesting under another item is not kept",
+			},
+		]);
+	});
+});
@@ -0,0 +1,638 @@
+import { isValidDate } from "./date";
+import { addContext, addProject, addTag, setTag } from "./mutations";
+import { parseTodoLine, serializeTodo } from "./parser";
+import { getTagValues } from "./tags";
+import { isTodoTag } from "./tokenizer";
+import type {
+	CsvImportOptions,
+	ICalendarImportOptions,
+	ImportFieldMapping,
+	ImportIssue,
+	ImportResult,
+	MarkdownImportOptions,
+	Todo,
+} from "./types";
+import { validateTodo } from "./validate";
+
+const DEFAULT_ICALENDAR_FIELDS: Record<string, ImportFieldMapping> = {
+	"X-TODOTXT-LINE": "line",
+	SUMMARY: "description",
+	PRIORITY: "priority",
+	STATUS: "completed",
+	COMPLETED: "completionDate",
+	CREATED: "creationDate",
+	DUE: "tag:due",
+	DTSTART: "tag:t",
+	CATEGORIES: "categories",
+	RRULE: "recurrence",
+	UID: "ignore",
+	DTSTAMP: "ignore",
+	"LAST-MODIFIED": "ignore",
+	SEQUENCE: "ignore",
+};
+
+const DEFAULT_CSV_COLUMNS: Record<string, ImportFieldMapping> = {
+	completed: "completed",
+	priority: "priority",
+	completionDate: "completionDate",
+	creationDate: "creationDate",
+	description: "description",
+	projects: "projects",
+	contexts: "contexts",
+	tags: "tags",
+	raw: "line",
+	line: "ignore",
+	id: "ignore",
+};
+
+const COMPLETED_VALUES: Record<string, boolean> = {
+	true: true,
+	yes: true,
+	x: true,
+	"1": true,
+	completed: true,
+	false: false,
+	no: false,
+	"0": false,
+	"needs-action": false,
+	"in-process": false,
+};
+
+const RRULE_UNITS: Record<string, string> = {
+	DAILY: "d",
+	WEEKLY: "w",
+	MONTHLY: "m",
+	YEARLY: "y",
+};
+
+interface SourceField {
+	name: string;
+	value: string;
+}
+
+/**
+ * Import the VTODO components of an iCalendar (RFC 5545) file
+ *
+ * Properties are imported according to the field mapping; the defaults
+ * reverse `exportICalendar`, so its output imports back to the same lines.
+ * Properties without a mapping, values that do not convert, nested
+ * components such as VALARM, and cancelled tasks' status are reported.
+ *
+ * @param content - iCalendar content
+ * @param options - Field mapping
+ * @returns Imported todos, their todo.txt content and issues
+ *
+ * @example
+ * ```ts
+ * importICalendar(ics, { fields: { DESCRIPTION: "ignore", LOCATION: "tag:at" } });
+ * // { todos: [...], content: "(A) Call Mom +family due:2024-01-05\n", issues: [] }
+ * ```
+ */
+export function importICalendar(
+	content: string,
+	options: ICalendarImportOptions = {},
+): ImportResult {
+	const fields = { ...DEFAULT_ICALENDAR_FIELDS };
+	for (const [name, mapping] of Object.entries(options.fields ?? {})) {
+		fields[name.toUpperCase()] = mapping;
+	}
+
+	const records: SourceField[][] = [];
+	const issues: ImportIssue[] = [];
+	let current: SourceField[] | undefined;
+	let nested: string[] = [];
+
+	// Unfold continuation lines first (RFC 5545 3.1)
+	for (const line of content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/)) {
+		const property = parseProperty(line);
+		if (!property) {
+			continue;
+		}
+
+		const { name, value } = property;
+		if (name === "BEGIN" || name === "END") {
+			const component = value.toUpperCase();
+			if (component === "VTODO") {
+				current = name === "BEGIN" ? [] : undefined;
+				if (current) {
+					records.push(current);
+				}
+				nested = [];
+			} else if (current && name === "BEGIN") {
+				if (nested.length === 0) {
+					issues.push({
+						record: records.length - 1,
+						field: component,
+						value: "",
+						message: `${component} components are not imported`,
+					});
+				}
+				nested.push(component);
+			} else if (current && name === "END") {
+				nested.pop();
+			}
+			continue;
+		}
+
+		if (current && nested.length === 0) {
+			current.push({ name, value });
+		}
+	}
+
+	return buildResult(records, issues, (field) => fields[field.name]);
+}
+
+/**
+ * Import the rows of a CSV file (RFC 4180) with a header row
+ *
+ * Columns are imported according to the column mapping; the defaults reverse
+ * `exportCsv`, and other columns become tags of their header. Empty cells are
+ * skipped. Columns without a mapping and values that do not convert are
+ * reported.
+ *
+ * @param content - CSV content
+ * @param options - Column mapping and delimiter
+ * @returns Imported todos, their todo.txt content and issues
+ *
+ * @example
+ * ```ts
+ * importCsv("Title,Done,Due\nCall Mom,no,2024-01-05\n", {
+ *   columns: { Title: "description", Done: "completed", Due: "tag:due" },
+ * });
+ * // content: "Call Mom due:2024-01-05\n"
+ * ```
+ */
+export function importCsv(
+	content: string,
+	options: CsvImportOptions = {},
+): ImportResult {
+	const { delimiter = ",", otherColumnsAsTags = true } = options;
+	const columns = { ...DEFAULT_CSV_COLUMNS, ...options.columns };
+	const [header = [], ...rows] = parseCsv(content, delimiter);
+
+	const records = rows.map((row) =>
+		header.flatMap((name, index) => {
+			const value = row[index] ?? "";
+			return value.length > 0 ? [{ name, value }] : [];
+		}),
+	);
+
+	return buildResult(records, [], ({ name }) => {
+		const mapping = columns[name];
+		if (mapping !== undefined) {
+			return mapping;
+		}
+		// Tag columns as written by exportCsv
+		return otherColumnsAsTags && /^[^\s:]+$/.test(name)
+			? `tag:${name}`
+			: undefined;
+	});
+}
+
+/**
+ * Import the items of GitHub-style Markdown task lists
+ *
+ * Every `- [ ]` / `- [x]` item (also with `*` or `+`, and numbered) is read as
+ * a todo.txt line and checked items are completed, so `exportMarkdown` output
+ * imports back to the same lines. Other Markdown is skipped; items nested
+ * under another item are imported on their own and reported, and unchecked
+ * items whose text starts with a completion mark (`x `) are skipped and
+ * reported.
+ *
+ * @param content - Markdown content
+ * @param options - Import options
+ * @returns Imported todos, their todo.txt content and issues
+ *
+ * @example
+ * ```ts
+ * importMarkdown("## Errands\n\n- [ ] Buy milk\n- [x] Call Mom\n", {
+ *   headingsAsProjects: true,
+ * });
+ * // content: "Buy milk +Errands\nx Call Mom +Errands\n"
+ * ```
+ */
+export function importMarkdown(
+	content: string,
+	options: MarkdownImportOptions = {},
+): ImportResult {
+	const { headingsAsProjects = false } = options;
+	const records: SourceField[][] = [];
+	const issues: ImportIssue[] = [];
+	let heading: string | undefined;
+	let fence: string | undefined;
+
+	for (const line of content.split(/\r?\n/)) {
+		const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			const marker = fenceMatch[1] ?? "";
+			if (fence === undefined) {
+				fence = marker;
+			} else if (marker.startsWith(fence)) {
+				fence = undefined;
+			}
+			continue;
+		}
+		if (fence !== undefined) {
+			continue;
+		}
+
+		const headingMatch = line.match(/^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/);
+		if (headingMatch) {
+			heading = headingMatch[1]?.trim().replace(/\s+/g, "-") || undefined;
+			continue;
+		}
+
+		const item = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/);
+		if (!item) {
+			continue;
+		}
+
+		const [, indent = "", mark = " ", text = ""] = item;
+		if (mark === " " && parseTodoLine(text.trim()).completed) {
+			// todo.txt has no way to escape a leading "x "
+			issues.push({
+				record: records.length,
+				field: "item",
+				value: text,
+				message:
+					"An unchecked item starting with a completion mark cannot stay open",
+			});
+			records.push([]);
+			continue;
+		}
+
+		const todoLine =
+			mark === " " || text.startsWith("x ") ? text.trim() : `x ${text.trim()}`;
+		const value =
+			headingsAsProjects && heading
+				? serializeTodo(addProject(parseTodoLine(todoLine), heading))
+				: todoLine;
+		if (indent.length >= 2) {
+			issues.push({
+				record: records.length,
+				field: "item",
+				value: text,
+				message: "Nesting under another item is not kept",
+			});
+		}
+		records.push([{ name: "item", value }]);
+	}
+
+	return buildResult(records, issues, () => "line");
+}
+
+/**
+ * Build todos from source records, collecting issues
+ */
+function buildResult(
+	records: SourceField[][],
+	issues: ImportIssue[],
+	mappingOf: (field: SourceField) => ImportFieldMapping | undefined,
+): ImportResult {
+	const todos: Todo[] = [];
+
+	records.forEach((fields, record) => {
+		const report = (field: SourceField, message: string): void => {
+			issues.push({ record, field: field.name, value: field.value, message });
+		};
+
+		const mapped = fields.map((field) => ({
+			field,
+			mapping: mappingOf(field),
+		}));
+		const line = mapped.find(({ mapping }) => mapping === "line");
+
+		let todo = parseTodoLine(line ? line.field.value : "");
+		if (!line) {
+			for (const { field, mapping } of mapped) {
+				if (mapping === undefined) {
+					report(field, `No mapping for ${field.name}`);
+				} else if (mapping !== "ignore" && mapping !== "line") {
+					todo = applyField(todo, field.value, mapping, (message) =>
+						report(field, message),
+					);
+				}
+			}
+		}
+
+		// Only completed tasks have a completion date in todo.txt
+		if (!todo.completed && todo.completionDate) {
+			issues.push({
+				record,
+				field: "completionDate",
+				value: todo.completionDate,
+				message: "A task that is not completed cannot keep its completion date",
+			});
+			todo = { ...todo, completionDate: undefined };
+		}
+
+		// A completed task needs a completion date before its creation date
+		if (todo.completed && !todo.completionDate && todo.creationDate) {
+			issues.push({
+				record,
+				field: "creationDate",
+				value: todo.creationDate,
+				message:
+					"A completed task without a completion date cannot keep its creation date",
+			});
+			todo = { ...todo, creationDate: undefined };
+		}
+
+		if (todo.description.trim().length === 0) {
+			issues.push({
+				record,
+				field: "",
+				value: "",
+				message: "Record has no description and was skipped",
+			});
+			return;
+		}
+
+		// Completed tasks carry no priority; keep it in a tag as completeTodo does
+		if (todo.completed && todo.priority) {
+			const { priority } = todo;
+			todo = { ...todo, priority: undefined };
+			if (getTagValues(todo, "pri").length === 0) {
+				todo = setTag(todo, "pri", priority);
+			} else {
+				issues.push({
+					record,
+					field: "priority",
+					value: priority,
+					message:
+						"A completed task cannot keep its priority and already has a pri: tag",
+				});
+			}
+		}
+
+		todo = parseTodoLine(serializeTodo(todo));
+		for (const issue of validateTodo(todo)) {
+			issues.push({
+				record,
+				field: issue.path,
+				value: "",
+				message: issue.message,
+			});
+		}
+		todos.push(todo);
+	});
+
+	return {
+		todos,
+		content: todos.map((todo) => `${serializeTodo(todo)}\n`).join(""),
+		issues,
+	};
+}
+
+function applyField(
+	todo: Todo,
+	value: string,
+	mapping: Exclude<ImportFieldMapping, "ignore" | "line">,
+	report: (message: string) => void,
+): Todo {
+	if (typeof mapping === "function") {
+		return mapping(value, todo);
+	}
+
+	switch (mapping) {
+		case "description": {
+			const text = value.replace(/\s+/g, " ").trim();
+			if (/[\r\n]/.test(value.trim())) {
+				report("Line breaks were replaced by spaces");
+			}
+			return parseTodoLine(
+				serializeTodo({
+					...todo,
+					description: [todo.description, text].filter(Boolean).join(" "),
+				}),
+			);
+		}
+		case "priority": {
+			const priority = toPriority(value);
+			if (priority === undefined) {
+				report(`"${value}" is not a priority`);
+				return todo;
+			}
+			// Set directly: the description may still be empty
+			return { ...todo, priority: priority ?? undefined };
+		}
+		case "completed": {
+			const completed = COMPLETED_VALUES[value.trim().toLowerCase()];
+			if (completed === undefined) {
+				report(`"${value}" is not a completion state`);
+				return todo;
+			}
+			return { ...todo, completed };
+		}
+		case "completionDate":
+		case "creationDate": {
+			const date = toDate(value);
+			if (!date) {
+				report(`"${value}" is not a date`);
+				return todo;
+			}
+			return { ...todo, [mapping]: date };
+		}
+		case "projects":
+		case "contexts":
+		case "categories": {
+			let next = todo;
+			for (const name of value.split(
+				mapping === "categories" ? "," : /[\s,]+/,
+			)) {
+				const word = name.trim().replace(/\s+/g, "-");
+				if (word.length === 0) {
+					continue;
+				}
+				if (
+					mapping === "contexts" ||
+					(mapping === "categories" && word.startsWith("@"))
+				) {
+					next = addContext(next, word.replace(/^@/, ""));
+				} else {
+					next = addProject(next, word.replace(/^\+/, ""));
+				}
+			}
+			return next;
+		}
+		case "tags": {
+			let next = todo;
+			for (const word of value.split(/\s+/).filter(Boolean)) {
+				const colon = word.indexOf(":");
+				const key = word.slice(0, colon);
+				const tagValue = word.slice(colon + 1);
+				if (colon <= 0 || tagValue.length === 0 || !isTodoTag(key, tagValue)) {
+					report(`"${word}" is not a key:value tag`);
+				} else {
+					next = withTag(next, key, tagValue);
+				}
+			}
+			return next;
+		}
+		case "recurrence": {
+			const recurrence = toRecurrence(value);
+			if (!recurrence) {
+				report(`Recurrence rule "${value}" has no todo.txt equivalent`);
+				return todo;
+			}
+			return withTag(todo, "rec", recurrence);
+		}
+		default: {
+			const key = mapping.slice(4);
+			if (!/^[^\s:]+$/.test(key)) {
+				report(`"${key}" is not a valid tag key`);
+				return todo;
+			}
+
+			let next = todo;
+			for (const word of value.split(/\s+/).filter(Boolean)) {
+				const tagValue = toDate(word) ?? word;
+				if (isTodoTag(key, tagValue)) {
+					next = withTag(next, key, tagValue);
+				} else {
+					report(`"${key}:${tagValue}" would not be read as a tag`);
+				}
+			}
+			return next;
+		}
+	}
+}
+
+function withTag(todo: Todo, key: string, value: string): Todo {
+	return getTagValues(todo, key).includes(value)
+		? todo
+		: addTag(todo, key, value);
+}
+
+/**
+ * Priority letter, null for "no priority", or undefined if not a priority
+ */
+function toPriority(value: string): string | null | undefined {
+	const text = value.trim();
+	if (/^[A-Za-z]$/.test(text)) {
+		return text.toUpperCase();
+	}
+	if (/^\d$/.test(text)) {
+		// iCalendar: 0 is undefined, 1 is highest and 9 lowest
+		const rank = Number(text);
+		return rank === 0
+			? null
+			: String.fromCharCode("A".charCodeAt(0) + rank - 1);
+	}
+	return text.length === 0 ? null : undefined;
+}
+
+// YYYY-MM-DD, or an iCalendar DATE / DATE-TIME
+function toDate(value: string): string | undefined {
+	const match = value
+		.trim()
+		.match(/^(\d{4})-?(\d{2})-?(\d{2})(?:T\d{2}:?\d{2}:?\d{2}Z?)?$/);
+	if (!match) {
+		return undefined;
+	}
+
+	const date = `${match[1]}-${match[2]}-${match[3]}`;
+	return isValidDate(date) ? date : undefined;
+}
+
+// FREQ and INTERVAL only; other parts have no rec: equivalent
+function toRecurrence(value: string): string | undefined {
+	const parts = new Map(
+		value
+			.toUpperCase()
+			.split(";")
+			.map((part) => {
+				const [key = "", partValue = ""] = part.split("=");
+				return [key, partValue] as const;
+			}),
+	);
+	const unit = RRULE_UNITS[parts.get("FREQ") ?? ""];
+	const interval = parts.get("INTERVAL") ?? "1";
+	if (
+		!unit ||
+		!/^[1-9]\d*$/.test(interval) ||
+		[...parts.keys()].some((key) => key !== "FREQ" && key !== "INTERVAL")
+	) {
+		return undefined;
+	}
+
+	return `${interval}${unit}`;
+}
+
+/**
+ * Split an iCalendar content line into its name and unescaped value
+ */
+function parseProperty(line: string): SourceField | undefined {
+	// The value starts at the first colon outside quoted parameter values
+	let quoted = false;
+	let colon = -1;
+	for (let i = 0; i < line.length; i++) {
+		const char = line.charAt(i);
+		if (char === '"') {
+			quoted = !quoted;
+		} else if (char === ":" && !quoted) {
+			colon = i;
+			break;
+		}
+	}
+	if (colon <= 0) {
+		return undefined;
+	}
+
+	const [name = ""] = line.slice(0, colon).split(";");
+	const value = line
+		.slice(colon + 1)
+		.replace(/\\([\\;,nN])/g, (_, char: string) =>
+			char === "n" || char === "N" ? "\n" : char,
+		);
+
+	return { name: name.toUpperCase(), value };
+}
+
+/**
+ * Split CSV content into rows of cells (RFC 4180)
+ */
+function parseCsv(content: string, delimiter: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let quoted = false;
+
+	for (let i = 0; i < content.length; i++) {
+		const char = content.charAt(i);
+		if (quoted) {
+			if (char === '"' && content.charAt(i + 1) === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"' && cell.length === 0) {
+			quoted = true;
+		} else if (content.startsWith(delimiter, i)) {
+			row.push(cell);
+			cell = "";
+			i += delimiter.length - 1;
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && content.charAt(i + 1) === "\n") {
+				i++;
+			}
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+
+	if (cell.length > 0 || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+
+	// Blank lines are not records
+	return rows.filter((cells) => cells.length > 1 || cells[0] !== "");
+}
@@ -7,13 +7,156 @@
  * @see https://github.com/todotxt/todo.txt
  */
 
+export { archive } from "./archive";
+export { diagnoseTodoLine, parseTodoTxtWithDiagnostics } from "./diagnostics";
+export { diffTodoTxt } from "./diff";
 export {
+	isDueWithin,
+	isHidden,
+	isOverdue,
+	parseRelativeDate,
+	resolveDateTags,
+} from "./due";
+export { TodoParseError, TodoQueryError, TodoValidationError } from "./errors";
+export {
+	exportCsv,
+	exportICalendar,
+	exportJsonLines,
+	exportMarkdown,
+} from "./export";
+export {
+	isInContext,
+	isInProject,
+	listContextTree,
+	listProjectTree,
+	renameContextSubtree,
+	renameProjectSubtree,
+	splitHierarchy,
+} from "./hierarchy";
+export { importCsv, importICalendar, importMarkdown } from "./import";
+export { mergeTodoTxt } from "./merge";
+export {
+	addContext,
+	addProject,
+	addTag,
+	completeTasksAtLines,
+	completeTodo,
+	removeContext,
+	removeProject,
+	removeTag,
+	renameContext,
+	renameProject,
+	setPriority,
+	setTag,
+	uncompleteTasksAtLines,
+	uncompleteTodo,
+} from "./mutations";
+export {
+	appendDocumentTask,
 	appendTaskToFile,
+	deleteLine,
 	deleteTaskAtLine,
+	deleteTaskById,
+	editTodoDocument,
+	findTaskLineById,
+	findTaskLineIndex,
+	moveDocumentLine,
+	moveLine,
+	moveTaskById,
+	parseTodoDocument,
 	parseTodoLine,
 	parseTodoTxt,
+	removeDocumentLine,
 	serializeTodo,
+	serializeTodoDocument,
+	setDocumentTask,
+	sortDocumentTasks,
+	updateLine,
 	updateTaskAtLine,
+	updateTaskById,
 	updateTodoInList,
 } from "./parser";
-export type { Todo } from "./types";
+export { compileQuery, filterTodos, parseQuery } from "./query";
+export { addTask, defaultQuickAddRules } from "./quickadd";
+export {
+	addRecurrence,
+	appendNextOccurrence,
+	createNextOccurrence,
+	parseRecurrence,
+} from "./recurrence";
+export { groupTodos, summarizeTodos } from "./report";
+export { getTypedTags, parseDuration } from "./schema";
+export { compareTodos, sortTodos, sortTodoTxt } from "./sort";
+export { parseTodoStream } from "./stream";
+export { getTagEntries, getTagValues, hasTag } from "./tags";
+export { isTodoTag, tokenizeTodoLine } from "./tokenizer";
+export type {
+	AddTaskOptions,
+	ArchiveOptions,
+	ArchiveResult,
+	CompletionOptions,
+	CsvColumn,
+	CsvExportOptions,
+	CsvField,
+	CsvImportOptions,
+	DateOptions,
+	DiagnosticCode,
+	DiagnosticOptions,
+	DiagnosticSeverity,
+	DiffOptions,
+	GroupBy,
+	GroupOptions,
+	HierarchyNode,
+	HierarchyOptions,
+	ICalendarExportOptions,
+	ICalendarImportOptions,
+	ImportFieldMapping,
+	ImportIssue,
+	ImportResult,
+	ImportTarget,
+	LineEnding,
+	MarkdownExportOptions,
+	MarkdownImportOptions,
+	MergeConflict,
+	MergeOptions,
+	MergeResult,
+	ParseOptions,
+	ParseResult,
+	QueryNode,
+	QueryOperator,
+	QueryOptions,
+	QuickAddContext,
+	QuickAddResult,
+	QuickAddRule,
+	Recurrence,
+	RecurrenceUnit,
+	ResolveDatesOptions,
+	SortCriterion,
+	SortField,
+	SortSpec,
+	TagCoercer,
+	TagDiagnostic,
+	TagRecognizer,
+	TagSchema,
+	TagValueType,
+	TagValueTypes,
+	TextEdit,
+	Todo,
+	TodoChange,
+	TodoChangeKind,
+	TodoDiagnostic,
+	TodoDocument,
+	TodoDocumentLine,
+	TodoDocumentOptions,
+	TodoGroup,
+	TodoListChange,
+	TodoStats,
+	TodoTag,
+	TodoToken,
+	TodoTokenType,
+	TodoValidationCode,
+	TodoValidationIssue,
+	TypedTags,
+	TypedTagsResult,
+} from "./types";
+export { assertTodo, todoJsonSchema, validateTodo } from "./validate";
@@ -0,0 +1,115 @@
+import { tokenizeTodoLine } from "./tokenizer";
+import type { Todo, TodoDocument, TodoDocumentOptions } from "./types";
+
+// Share of common words above which an edited task is the same task
+const SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * A task prepared for matching across versions of a file
+ */
+export interface MatchTask {
+	todo: Todo;
+	/** Line text without surrounding whitespace */
+	text: string;
+	/** Plain description text, without projects, contexts and tags */
+	plain: string;
+	/** Lowercased words used to match edited tasks */
+	words: Set<string>;
+}
+
+/**
+ * Collect the tasks of a document for matching
+ */
+export function tasksOf(
+	doc: TodoDocument,
+	options: TodoDocumentOptions,
+): MatchTask[] {
+	const tasks: MatchTask[] = [];
+
+	for (const line of doc.lines) {
+		if (!line.todo) {
+			continue;
+		}
+
+		const plain = tokenizeTodoLine(line.todo.raw, options)
+			.filter((token) => token.type === "text")
+			.map((token) => token.text)
+			.join(" ");
+		const words = (plain.length > 0 ? plain : line.todo.description)
+			.toLowerCase()
+			.split(/\s+/)
+			.filter((word) => word.length > 0);
+
+		tasks.push({
+			todo: line.todo,
+			text: line.text.trim(),
+			plain,
+			words: new Set(words),
+		});
+	}
+
+	return tasks;
+}
+
+/**
+ * Match base tasks to the tasks of an edited version: unchanged tasks by
+ * their text first, then edited tasks by word similarity, best pairs first.
+ */
+export function matchTasks(
+	base: MatchTask[],
+	side: MatchTask[],
+): Map<number, number> {
+	const matches = new Map<number, number>();
+	const used = new Set<number>();
+
+	const byText = new Map<string, number[]>();
+	side.forEach((task, index) => {
+		byText.set(task.text, [...(byText.get(task.text) ?? []), index]);
+	});
+	base.forEach((task, index) => {
+		const match = byText.get(task.text)?.shift();
+		if (match !== undefined) {
+			matches.set(index, match);
+			used.add(match);
+		}
+	});
+
+	const pairs: Array<{ from: number; to: number; score: number }> = [];
+	base.forEach((task, from) => {
+		if (matches.has(from)) {
+			return;
+		}
+		side.forEach((candidate, to) => {
+			const score = used.has(to) ? 0 : similarity(task.words, candidate.words);
+			if (score >= SIMILARITY_THRESHOLD) {
+				pairs.push({ from, to, score });
+			}
+		});
+	});
+
+	pairs.sort((a, b) => b.score - a.score || a.from - b.from || a.to - b.to);
+	for (const { from, to } of pairs) {
+		if (!matches.has(from) && !used.has(to)) {
+			matches.set(from, to);
+			used.add(to);
+		}
+	}
+
+	return matches;
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+	let common = 0;
+	for (const word of a) {
+		if (b.has(word)) {
+			common++;
+		}
+	}
+
+	const total = a.size + b.size - common;
+	return total > 0 ? common / total : 0;
+}
+
+export function invert(map: Map<number, number>): Map<number, number> {
+	return new Map([...map].map(([key, value]) => [value, key]));
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { mergeTodoTxt } from "./merge";
+
+describe("mergeTodoTxt", () => {
+	it("片側だけの変更をそのまま取り込む", () => {
+		const base = "Task 1\nTask 2\n";
+
+		expect(mergeTodoTxt(base, base, "Task 1\nTask 2 +work\n")).toEqual({
+			content: "Task 1\nTask 2 +work\n",
+			conflicts: [],
+		});
+		expect(mergeTodoTxt(base, "Task 2\n", base).content).toBe("Task 2\n");
+	});
+
+	it("完了と編集を組み合わせる", () => {
+		const result = mergeTodoTxt(
+			"Call Mom\nBuy milk\n",
+			"x 2024-01-05 Call Mom\nBuy milk\n",
+			"Call Mom +family\nBuy milk\nPay rent\n",
+		);
+
+		expect(result).toEqual({
+			content: "x 2024-01-05 Call Mom +family\nBuy milk\nPay rent\n",
+			conflicts: [],
+		});
+	});
+
+	it("完了は優先度の変更より優先される", () => {
+		const result = mergeTodoTxt(
+			"(A) Ship release +work\n",
+			"x 2024-01-05 Ship release +work pri:A\n",
+			"(B) Ship release +work @office\n",
+		);
+
+		expect(result.content).toBe(
+			"x 2024-01-05 Ship release +work @office pri:A\n",
+		);
+		expect(result.conflicts).toEqual([]);
+	});
+
+	it("両側のタグの追加と削除を統合する", () => {
+		const result = mergeTodoTxt(
+			"Write report due:2024-01-10 est:2h\n",
+			"Write report due:2024-01-12 est:2h\n",
+			"Write report est:2h owner:bob\n",
+		);
+
+		// They removed the old due: value and we set a new one: the new value is
+		// kept and added to their version
+		expect(result.content).toBe(
+			"Write report est:2h owner:bob due:2024-01-12\n",
+		);
+	});
+
+	it("移動したタスクを一致させる", () => {
+		const result = mergeTodoTxt(
+			"Task A\nTask B\nTask C\n",
+			"Task C\nTask A\nTask B\n",
+			"Task A @home\nTask B\nTask C\n",
+		);
+
+		expect(result.content).toBe("Task C\nTask A @home\nTask B\n");
+	});
+
+	it("相手の追加は相手側で直前にあったタスクの後に入る", () => {
+		const result = mergeTodoTxt(
+			"Task A\nTask B\n",
+			"Task A\nTask B\nOur task\n",
+			"New first\nTask A\nTheir task\nTask B\n",
+		);
+
+		expect(result.content).toBe(
+			"New first\nTask A\nTheir task\nTask B\nOur task\n",
+		);
+	});
+
+	it("同じ追加は一度だけにする", () => {
+		const result = mergeTodoTxt("Task A\n", "Task A\nNew\n", "Task A\nNew\n");
+
+		expect(result.content).toBe("Task A\nNew\n");
+	});
+
+	it("本文の競合をマーカーで報告する", () => {
+		const result = mergeTodoTxt(
+			"Task 1\nBuy milk\n",
+			"Task 1\nBuy oat milk\n",
+			"Task 1\nBuy soy milk\n",
+		);
+
+		expect(result.content).toBe(
+			"Task 1\n<<<<<<< ours\nBuy oat milk\n||||||| base\nBuy milk\n=======\nBuy soy milk\n>>>>>>> theirs\n",
+		);
+		expect(result.conflicts).toEqual([
+			{
+				line: 1,
+				reason: "modified",
+				base: "Buy milk",
+				ours: "Buy oat milk",
+				theirs: "Buy soy milk",
+			},
+		]);
+	});
+
+	it("同じタグを別の値にした場合は競合", () => {
+		const result = mergeTodoTxt(
+			"Pay rent due:2024-01-01\n",
+			"Pay rent due:2024-01-02\n",
+			"Pay rent due:2024-01-03\n",
+			{ markers: false },
+		);
+
+		expect(result.content).toBe("Pay rent due:2024-01-02\n");
+		expect(result.conflicts).toHaveLength(1);
+	});
+
+	it("削除と編集の競合", () => {
+		const base = "Task 1\nCall Bob\n";
+		const theirs = "Task 1\nCall Bob +sales\n";
+
+		expect(mergeTodoTxt(base, "Task 1\n", theirs).conflicts).toEqual([
+			{
+				line: 1,
+				reason: "deleted",
+				base: "Call Bob",
+				theirs: "Call Bob +sales",
+			},
+		]);
+		expect(
+			mergeTodoTxt(base, "Task 1\n", theirs, { markers: false }).content,
+		).toBe("Task 1\nCall Bob +sales\n");
+		expect(mergeTodoTxt(base, theirs, "Task 1\n").conflicts[0]?.reason).toBe(
+			"deleted",
+		);
+	});
+
+	it("自分側の改行コードと空行を保つ", () => {
+		const result = mergeTodoTxt(
+			"Task 1\n\nTask 2",
+			"Task 1\r\n\r\nTask 2",
+			"Task 1\n\nTask 2 @home",
+		);
+
+		expect(result.content).toBe("Task 1\r\n\r\nTask 2 @home");
+	});
+});
@@ -0,0 +1,369 @@
+import type { MatchTask } from "./match";
+import { invert, matchTasks, tasksOf } from "./match";
+import {
+	addContext,
+	addProject,
+	addTag,
+	removeContext,
+	removeProject,
+	removeTag,
+} from "./mutations";
+import { parseTodoDocument, serializeTodo } from "./parser";
+import { getTagEntries } from "./tags";
+import type { MergeConflict, MergeOptions, MergeResult, Todo } from "./types";
+
+const CONFLICT = Symbol("conflict");
+
+interface MergeEntry {
+	lines: string[];
+	conflict?: Omit<MergeConflict, "line">;
+}
+
+/**
+ * Merge two edited versions of a todo.txt file with their common ancestor
+ *
+ * Tasks are matched across versions by their text, then by the similarity of
+ * their words, so moved and edited tasks are recognized. When both sides
+ * changed a task, the changes are combined field by field: projects, contexts
+ * and tags added or removed on either side are applied, and completing a task
+ * wins over edits to its priority. Edits that cannot be combined (different
+ * text, or the same tag set to different values) are conflicts.
+ *
+ * The result follows our line order; tasks they added are placed after the
+ * task preceding them in their version.
+ *
+ * @param base - Common ancestor content
+ * @param ours - Our content
+ * @param theirs - Their content
+ * @param options - Merge options
+ * @returns Merged content and conflicts
+ *
+ * @example
+ * ```ts
+ * mergeTodoTxt(
+ *   "Call Mom\nBuy milk\n",
+ *   "x 2024-01-05 Call Mom\nBuy milk\n",
+ *   "Call Mom +family\nBuy milk\nPay rent\n",
+ * );
+ * // { content: "x 2024-01-05 Call Mom +family\nBuy milk\nPay rent\n", conflicts: [] }
+ * ```
+ */
+export function mergeTodoTxt(
+	base: string,
+	ours: string,
+	theirs: string,
+	options: MergeOptions = {},
+): MergeResult {
+	const { markers = true } = options;
+	const oursDoc = parseTodoDocument(ours, options);
+	const baseTasks = tasksOf(parseTodoDocument(base, options), options);
+	const oursTasks = tasksOf(oursDoc, options);
+	const theirsTasks = tasksOf(parseTodoDocument(theirs, options), options);
+
+	const theirsMatch = matchTasks(baseTasks, theirsTasks);
+	const oursBase = invert(matchTasks(baseTasks, oursTasks));
+	const theirsBase = invert(theirsMatch);
+
+	const entries: MergeEntry[] = [];
+	// Entry holding each of their tasks, used to place their additions
+	const theirsEntries = new Map<number, number>();
+	const oursAdded = new Set<string>();
+	let taskIndex = 0;
+
+	for (const line of oursDoc.lines) {
+		const own = line.kind === "task" ? oursTasks[taskIndex++] : undefined;
+		if (!own) {
+			entries.push({ lines: [line.text] });
+			continue;
+		}
+
+		const baseIndex = oursBase.get(taskIndex - 1);
+		const baseTask = baseIndex === undefined ? undefined : baseTasks[baseIndex];
+		if (baseIndex === undefined || !baseTask) {
+			oursAdded.add(own.text);
+			entries.push({ lines: [line.text] });
+			continue;
+		}
+
+		const theirsIndex = theirsMatch.get(baseIndex);
+		const other =
+			theirsIndex === undefined ? undefined : theirsTasks[theirsIndex];
+		if (theirsIndex === undefined || !other) {
+			// They deleted it: keep the deletion unless we edited the task
+			if (own.text !== baseTask.text) {
+				entries.push(
+					conflictEntry(
+						{ reason: "deleted", base: baseTask.text, ours: own.text },
+						markers,
+					),
+				);
+			}
+			continue;
+		}
+
+		theirsEntries.set(theirsIndex, entries.length);
+		const merged = mergeTask(baseTask, own, other);
+		if (merged === undefined) {
+			entries.push(
+				conflictEntry(
+					{
+						reason: "modified",
+						base: baseTask.text,
+						ours: own.text,
+						theirs: other.text,
+					},
+					markers,
+				),
+			);
+		} else {
+			entries.push({ lines: [merged === own.text ? line.text : merged] });
+		}
+	}
+
+	// Their additions, and tasks we deleted that they edited
+	const inserts = new Map<number, MergeEntry[]>();
+	let anchor = -1;
+	theirsTasks.forEach((task, index) => {
+		const entry = theirsEntries.get(index);
+		if (entry !== undefined) {
+			anchor = entry;
+			return;
+		}
+
+		const baseIndex = theirsBase.get(index);
+		const baseTask = baseIndex === undefined ? undefined : baseTasks[baseIndex];
+		let insert: MergeEntry | undefined;
+		if (!baseTask) {
+			if (!oursAdded.has(task.text)) {
+				insert = { lines: [task.text] };
+			}
+		} else if (task.text !== baseTask.text) {
+			insert = conflictEntry(
+				{ reason: "deleted", base: baseTask.text, theirs: task.text },
+				markers,
+			);
+		}
+
+		if (insert) {
+			inserts.set(anchor, [...(inserts.get(anchor) ?? []), insert]);
+		}
+	});
+
+	const lines: string[] = [];
+	const conflicts: MergeConflict[] = [];
+	const emit = (entry: MergeEntry): void => {
+		if (entry.conflict) {
+			conflicts.push({ line: lines.length, ...entry.conflict });
+		}
+		lines.push(...entry.lines);
+	};
+
+	for (const entry of inserts.get(-1) ?? []) {
+		emit(entry);
+	}
+	entries.forEach((entry, index) => {
+		emit(entry);
+		for (const insert of inserts.get(index) ?? []) {
+			emit(insert);
+		}
+	});
+
+	const trailing = (oursDoc.lines.at(-1)?.eol ?? "\n") !== "";
+	const content =
+		lines.length > 0
+			? lines.join(oursDoc.newline) + (trailing ? oursDoc.newline : "")
+			: "";
+
+	return { content, conflicts };
+}
+
+function conflictEntry(
+	conflict: Omit<MergeConflict, "line">,
+	markers: boolean,
+): MergeEntry {
+	const { base, ours, theirs } = conflict;
+	if (!markers) {
+		return { lines: [ours ?? theirs ?? base], conflict };
+	}
+
+	return {
+		lines: [
+			"<<<<<<< ours",
+			...(ours === undefined ? [] : [ours]),
+			"||||||| base",
+			base,
+			"=======",
+			...(theirs === undefined ? [] : [theirs]),
+			">>>>>>> theirs",
+		],
+		conflict,
+	};
+}
+
+/**
+ * Merge a task both sides kept, or return undefined on a conflict
+ */
+function mergeTask(
+	base: MatchTask,
+	ours: MatchTask,
+	theirs: MatchTask,
+): string | undefined {
+	const simple = pick(base.text, ours.text, theirs.text);
+	if (simple !== CONFLICT) {
+		return simple;
+	}
+
+	const b = base.todo;
+	const o = ours.todo;
+	const t = theirs.todo;
+
+	const completed = o.completed !== b.completed ? o.completed : t.completed;
+	const priority = pick(b.priority, o.priority, t.priority);
+	const creationDate = pick(b.creationDate, o.creationDate, t.creationDate);
+	if (
+		pick(base.plain, ours.plain, theirs.plain) === CONFLICT ||
+		creationDate === CONFLICT ||
+		(priority === CONFLICT && !completed)
+	) {
+		return undefined;
+	}
+
+	const tags = mergeTags(b, o, t);
+	if (!tags) {
+		return undefined;
+	}
+
+	// Start from the side whose plain text changed and apply the other side's
+	// project, context and tag changes
+	let todo = ours.plain === base.plain ? t : o;
+	todo = applySet(
+		todo,
+		todo.projects,
+		mergeSet(b.projects, o.projects, t.projects),
+		removeProject,
+		addProject,
+	);
+	todo = applySet(
+		todo,
+		todo.contexts,
+		mergeSet(b.contexts, o.contexts, t.contexts),
+		removeContext,
+		addContext,
+	);
+	todo = applySet(
+		todo,
+		getTagEntries(todo).map(({ key, value }) => `${key}:${value}`),
+		tags,
+		(current, tag) => removeTag(current, ...splitTag(tag)),
+		(current, tag) => addTag(current, ...splitTag(tag)),
+	);
+
+	const completionDate = completed
+		? [o, t]
+				.filter((todo) => todo.completed && todo.completionDate)
+				.map((todo) => todo.completionDate)
+				.sort()[0]
+		: undefined;
+
+	return serializeTodo({
+		...todo,
+		completed,
+		completionDate,
+		priority: completed || priority === CONFLICT ? undefined : priority,
+		creationDate,
+	});
+}
+
+function pick<T>(base: T, ours: T, theirs: T): T | typeof CONFLICT {
+	if (ours === theirs || theirs === base) {
+		return ours;
+	}
+	if (ours === base) {
+		return theirs;
+	}
+
+	return CONFLICT;
+}
+
+/**
+ * Items of our side, minus those they removed, plus those they added
+ */
+function mergeSet(base: string[], ours: string[], theirs: string[]): string[] {
+	const removed = base.filter((item) => !theirs.includes(item));
+	const added = theirs.filter(
+		(item) => !base.includes(item) && !ours.includes(item),
+	);
+
+	return [
+		...new Set([...ours.filter((item) => !removed.includes(item)), ...added]),
+	];
+}
+
+/**
+ * Merge tag entries as sets, or return undefined when both sides set the
+ * same single-valued tag to different values
+ */
+function mergeTags(base: Todo, ours: Todo, theirs: Todo): string[] | undefined {
+	const values = (todo: Todo, key: string): string[] =>
+		getTagEntries(todo)
+			.filter((tag) => tag.key === key)
+			.map((tag) => tag.value);
+	const keys = new Set(
+		[base, ours, theirs].flatMap((todo) =>
+			getTagEntries(todo).map((tag) => tag.key),
+		),
+	);
+
+	for (const key of keys) {
+		const [b, o, t] = [
+			values(base, key),
+			values(ours, key),
+			values(theirs, key),
+		];
+		const [ourValue] = o;
+		const [theirValue] = t;
+		if (
+			b.length <= 1 &&
+			o.length === 1 &&
+			t.length === 1 &&
+			ourValue !== theirValue &&
+			ourValue !== b[0] &&
+			theirValue !== b[0]
+		) {
+			return undefined;
+		}
+	}
+
+	const entries = (todo: Todo): string[] =>
+		getTagEntries(todo).map(({ key, value }) => `${key}:${value}`);
+
+	return mergeSet(entries(base), entries(ours), entries(theirs));
+}
+
+function applySet(
+	todo: Todo,
+	current: string[],
+	target: string[],
+	remove: (todo: Todo, item: string) => Todo,
+	add: (todo: Todo, item: string) => Todo,
+): Todo {
+	let result = todo;
+
+	for (const item of new Set(current)) {
+		if (!target.includes(item)) {
+			result = remove(result, item);
+		}
+	}
+	for (const item of target) {
+		if (!current.includes(item)) {
+			result = add(result, item);
+		}
+	}
+
+	return result;
+}
+
+function splitTag(tag: string): [string, string] {
+	const colon = tag.indexOf(":");
+	return [tag.slice(0, colon), tag.slice(colon + 1)];
+}
@@ -0,0 +1,263 @@
+import { describe, expect, it } from "vitest";
+import {
+	addContext,
+	addProject,
+	addTag,
+	completeTasksAtLines,
+	completeTodo,
+	removeContext,
+	removeProject,
+	removeTag,
+	renameContext,
+	renameProject,
+	setPriority,
+	setTag,
+	uncompleteTasksAtLines,
+	uncompleteTodo,
+} from "./mutations";
+import { parseTodoLine, parseTodoTxt, serializeTodo } from "./parser";
+
+describe("set priority", () => {
+	it("優先度を設定・変更・削除する", () => {
+		const todo = parseTodoLine("2024-01-01 Task");
+
+		expect(setPriority(todo, "B").raw).toBe("(B) 2024-01-01 Task");
+		expect(setPriority(setPriority(todo, "B"), "A").priority).toBe("A");
+		expect(setPriority(parseTodoLine("(A) Task"), undefined).raw).toBe("Task");
+	});
+
+	it("不正な優先度はRangeError", () => {
+		expect(() => setPriority(parseTodoLine("Task"), "a")).toThrow(RangeError);
+		expect(() => setPriority(parseTodoLine("Task"), "AB")).toThrow(RangeError);
+	});
+
+	it("元のTodoを変更しない", () => {
+		const todo = parseTodoLine("Task");
+		setPriority(todo, "A");
+		expect(todo.priority).toBeUndefined();
+	});
+});
+
+describe("projects and contexts", () => {
+	it("プロジェクトを追加すると説明文とprojectsが一致する", () => {
+		const result = addProject(parseTodoLine("(A) Task @home"), "work");
+
+		expect(result.description).toBe("Task @home +work");
+		expect(result.projects).toEqual(["work"]);
+		expect(serializeTodo(result)).toBe("(A) Task @home +work");
+	});
+
+	it("既にあるプロジェクトは追加しない", () => {
+		const todo = parseTodoLine("Task +work");
+		expect(addProject(todo, "work")).toBe(todo);
+	});
+
+	it("プロジェクトを全て削除する", () => {
+		const result = removeProject(
+			parseTodoLine("+work Task +work due:2024-01-01 +home"),
+			"work",
+		);
+
+		expect(result.description).toBe("Task due:2024-01-01 +home");
+		expect(result.projects).toEqual(["home"]);
+	});
+
+	it("プロジェクト名を変更する", () => {
+		const result = renameProject(
+			parseTodoLine("Task +old and +other"),
+			"old",
+			"new",
+		);
+
+		expect(result.description).toBe("Task +new and +other");
+		expect(result.projects).toEqual(["new", "other"]);
+	});
+
+	it("コンテキストを追加・削除・変更する", () => {
+		const todo = parseTodoLine("Call Mom @phone");
+
+		expect(addContext(todo, "home").contexts).toEqual(["phone", "home"]);
+		expect(removeContext(todo, "phone").description).toBe("Call Mom");
+		expect(renameContext(todo, "phone", "mobile").raw).toBe("Call Mom @mobile");
+	});
+
+	it("空白を含む名前はRangeError", () => {
+		expect(() => addProject(parseTodoLine("Task"), "a b")).toThrow(RangeError);
+		expect(() => addContext(parseTodoLine("Task"), "")).toThrow(RangeError);
+	});
+});
+
+describe("tags", () => {
+	it("setTagで既存の値を置き換える", () => {
+		const result = setTag(
+			parseTodoLine("Task due:2024-01-01 +p"),
+			"due",
+			"2024-02-01",
+		);
+
+		expect(result.description).toBe("Task due:2024-02-01 +p");
+		expect(result.tags).toEqual({ due: "2024-02-01" });
+	});
+
+	it("setTagで繰り返しキーを1つにまとめる", () => {
+		const result = setTag(parseTodoLine("Task link:a x link:b"), "link", "c");
+
+		expect(result.description).toBe("Task link:c x");
+		expect(result.tagEntries).toEqual([{ key: "link", value: "c" }]);
+	});
+
+	it("setTagで存在しないタグを追加する", () => {
+		const result = setTag(parseTodoLine("Task"), "due", "2024-01-01");
+
+		expect(result.raw).toBe("Task due:2024-01-01");
+	});
+
+	it("addTagで同じキーの値を追加する", () => {
+		const result = addTag(parseTodoLine("Task link:a"), "link", "b");
+
+		expect(result.tagEntries).toEqual([
+			{ key: "link", value: "a" },
+			{ key: "link", value: "b" },
+		]);
+	});
+
+	it("removeTagでキーまたは特定の値を削除する", () => {
+		const todo = parseTodoLine("Task link:a due:2024-01-01 link:b");
+
+		expect(removeTag(todo, "link").description).toBe("Task due:2024-01-01");
+		expect(removeTag(todo, "link", "b").description).toBe(
+			"Task link:a due:2024-01-01",
+		);
+		expect(removeTag(todo, "missing")).toBe(todo);
+	});
+
+	it("URLはタグとして扱わない", () => {
+		const result = removeTag(parseTodoLine("See http://a.b"), "http");
+		expect(result.description).toBe("See http://a.b");
+	});
+
+	it("不正なタグはRangeError", () => {
+		expect(() => setTag(parseTodoLine("Task"), "a:b", "c")).toThrow(RangeError);
+		expect(() => setTag(parseTodoLine("Task"), "a", "b c")).toThrow(RangeError);
+	});
+
+	it("タグとして読まれない語はRangeError", () => {
+		const todo = parseTodoLine("Task");
+
+		expect(() => setTag(todo, "10", "30")).toThrow(RangeError);
+		expect(() => addTag(todo, "https", "//example.com")).toThrow(RangeError);
+		expect(todo.description).toBe("Task");
+	});
+
+	it("独自のisTagで解析したタグを保つ", () => {
+		const isTag = () => true;
+		const todo = parseTodoLine("Meet 10:30", { isTag });
+
+		const once = setTag(todo, "10", "31", { isTag });
+		expect(once.description).toBe("Meet 10:31");
+		expect(once.tags).toEqual({ 10: "31" });
+		expect(addProject(once, "work", { isTag }).tags).toEqual({ 10: "31" });
+		expect(setTag(once, "10", "32", { isTag }).description).toBe("Meet 10:32");
+	});
+});
+
+describe("identity", () => {
+	it("変更後も物理行とidを保持する", () => {
+		const [, todo] = parseTodoTxt("Task 1\n\nTask 2 +p");
+		const result = removeProject(todo ?? parseTodoLine(""), "p");
+
+		expect(result.line).toBe(2);
+		expect(result.id).toBe(todo?.id);
+		expect(result.raw).toBe("Task 2");
+	});
+});
+
+describe("complete and uncomplete", () => {
+	it("完了日を追加し優先度をpri:タグに移す", () => {
+		const result = completeTodo(parseTodoLine("(A) 2024-01-01 Call Mom"), {
+			date: "2024-01-05",
+		});
+
+		expect(result.raw).toBe("x 2024-01-05 2024-01-01 Call Mom pri:A");
+		expect(result.completed).toBe(true);
+		expect(result.priority).toBeUndefined();
+		expect(result.tags).toEqual({ pri: "A" });
+	});
+
+	it("priorityTagで移動先のタグを変更・破棄できる", () => {
+		const todo = parseTodoLine("(B) Task");
+
+		expect(
+			completeTodo(todo, { date: "2024-01-05", priorityTag: "p" }).raw,
+		).toBe("x 2024-01-05 Task p:B");
+		expect(
+			completeTodo(todo, { date: "2024-01-05", priorityTag: false }).raw,
+		).toBe("x 2024-01-05 Task");
+	});
+
+	it("完了済みのタスクはそのまま返す", () => {
+		const todo = parseTodoLine("x 2024-01-05 Task");
+		expect(completeTodo(todo, { date: "2024-02-01" })).toBe(todo);
+	});
+
+	it("日付を省略すると今日の日付を使う", () => {
+		const result = completeTodo(parseTodoLine("Task"));
+		expect(result.completionDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+	});
+
+	it("不正な日付はRangeError", () => {
+		expect(() => completeTodo(parseTodoLine("Task"), { date: "soon" })).toThrow(
+			RangeError,
+		);
+	});
+
+	it("uncompleteTodoで完了日を削除し優先度を戻す", () => {
+		const result = uncompleteTodo(
+			parseTodoLine("x 2024-01-05 2024-01-01 Call Mom pri:A +Family"),
+		);
+
+		expect(result.raw).toBe("(A) 2024-01-01 Call Mom +Family");
+		expect(result.completionDate).toBeUndefined();
+	});
+
+	it("完了と未完了は往復できる", () => {
+		const line = "(C) 2024-01-01 Task +p @c due:2024-02-01";
+		const todo = parseTodoLine(line);
+
+		expect(uncompleteTodo(completeTodo(todo, { date: "2024-01-10" })).raw).toBe(
+			line,
+		);
+	});
+
+	it("未完了のタスクはそのまま返す", () => {
+		const todo = parseTodoLine("Task");
+		expect(uncompleteTodo(todo)).toBe(todo);
+	});
+});
+
+describe("complete tasks in file", () => {
+	it("指定した物理行のタスクだけを完了する", () => {
+		const content = "(A) Task 1\r\n\r\nTask 2\r\nTask 3\r\n";
+
+		const result = completeTasksAtLines(content, [0, 1, 3], {
+			date: "2024-01-05",
+		});
+
+		expect(result).toBe(
+			"x 2024-01-05 Task 1 pri:A\r\n\r\nTask 2\r\nx 2024-01-05 Task 3\r\n",
+		);
+	});
+
+	it("指定した物理行のタスクを未完了に戻す", () => {
+		const content = "x 2024-01-05 Task 1 pri:A\nx 2024-01-05 Task 2";
+
+		expect(uncompleteTasksAtLines(content, [0])).toBe(
+			"(A) Task 1\nx 2024-01-05 Task 2",
+		);
+	});
+
+	it("変更がなければ元のコンテンツを返す", () => {
+		const content = "x 2024-01-05 Task\n";
+		expect(completeTasksAtLines(content, [0, 5])).toBe(content);
+	});
+});
@@ -0,0 +1,513 @@
+import { formatDate, isValidDate } from "./date";
+import {
+	parseTodoDocument,
+	parseTodoLine,
+	serializeTodo,
+	serializeTodoDocument,
+	setDocumentTask,
+} from "./parser";
+import { getTagValues } from "./tags";
+import { isTodoTag, scanTodoLine } from "./tokenizer";
+import type { CompletionOptions, ParseOptions, Todo, TodoToken } from "./types";
+
+// Replacement for a description token: new text, null to remove it, or
+// undefined to keep it as is
+type TokenEdit = (token: TodoToken) => string | null | undefined;
+
+/**
+ * Set or clear the priority of a todo
+ *
+ * @param todo - Todo to update
+ * @param priority - Uppercase letter A-Z, or undefined to remove the priority
+ * @param options - Parse options the todo was parsed with
+ * @returns New Todo
+ * @throws {RangeError} If the priority is not an uppercase letter
+ */
+export function setPriority(
+	todo: Todo,
+	priority: string | undefined,
+	options: ParseOptions = {},
+): Todo {
+	if (priority !== undefined && !/^[A-Z]$/.test(priority)) {
+		throw new RangeError(`Invalid priority "${priority}"`);
+	}
+
+	return rebuild(todo, { priority }, options);
+}
+
+/**
+ * Add a +project to the end of the description (no-op if already present)
+ *
+ * @param todo - Todo to update
+ * @param project - Project name without "+"
+ * @param options - Parse options the todo was parsed with
+ * @returns New Todo
+ * @throws {RangeError} If the name is empty or contains whitespace
+ */
+export function addProject(
+	todo: Todo,
+	project: string,
+	options: ParseOptions = {},
+): Todo {
+	assertWord(project, "project");
+
+	if (todo.projects.includes(project)) {
+		return todo;
+	}
+
+	return rebuild(
+		todo,
+		{ description: appendWord(todo, `+${project}`) },
+		options,
+	);
+}
+
+/**
+ * Remove every occurrence of a +project from the description
+ *
+ * @param todo - Todo to update
+ * @param project - Project name without "+"
+ * @param options - Parse options the todo was parsed with
+ * @returns New Todo
+ */
+export function removeProject(
+	todo: Todo,
+	project: string,
+	options: ParseOptions = {},
+): Todo {
+	return editTokens(
+		todo,
+		(token) =>
+			token.type === "project" && token.value === project ? null : undefined,
+		options,
+	);
+}
+
+/**
+ * Rename a +project everywhere in the description
+ *
+ * @param todo - Todo to update
+ * @param from - Current project name without "+"
+ * @param to - New project name without "+"
+ * @param options - Parse options the todo was parsed with
+ * @returns New Todo
+ * @throws {RangeError} If the new name is empty or contains whitespace
+ */
+export function renameProject(
+	todo: Todo,
+	from: string,
+	to: string,
+	options: ParseOptions = {},
+): Todo {
+	assertWord(to, "project");
+
+	return editTokens(
+		todo,
+		(token) =>
+			token.type === "project" && token.value === from ? `+${to}` : undefined,
+		options,
+	);
+}
+
+/**
+ * Add an @context to the end of the description (no-op if already present)
+ *
+ * @param todo - Todo to update
+ * @param context - Context name without "@"
+ * @param options - Parse options the todo was parsed with
+ * @returns New Todo
+ * @throws {RangeError} If the name is empty or contains whitespace
+ */
+export function addContext(
+	todo: Todo,
+	context: string,
+	options: ParseOptions = {},
+): Todo {
+	assertWord(context, "context");
+
+	if (todo.contexts.includes(context)) {
+		return todo;
+	}
+
+	return rebuild(
+		todo,
+		{ description: appendWord(todo, `@${context}`) },
+		options,
+	);
+}
+
+/**
+ * Remove every occurrence of an @context from the description
+ *
+ * @param todo - Todo to update
+ * @param context - Context name without "@"
+ * @param options - Parse options the todo was parsed with
+ * @returns New Todo
+ */
+export function removeContext(
+	todo: Todo,
+	context: string,
+	options: ParseOptions = {},
+): Todo {
+	return editTokens(
+		todo,
+		(token) =>
+			token.type === "context" && token.value === context ? null : undefined,
+		options,
+	);
+}
+
+/**
+ * Rename an @context everywhere in the description
+ *
+ * @param todo - Todo to update
+ * @param from - Current context name without "@"
+ * @param to - New context name without "@"
+ * @param options - Parse options the todo was parsed with
+ * @returns New Todo
+ * @throws {RangeError} If the new name is empty or contains whitespace
+ */
+export function renameContext(
+	todo: Todo,
+	from: string,
+	to: string,
+	options: ParseOptions = {},
+): Todo {
+	assertWord(to, "context");
+
+	return editTokens(
+		todo,
+		(token) =>
+			token.type === "context" && token.value === from ? `@${to}` : undefined,
+		options,
+	);
+}
+
+/**
+ * Set a tag to a single value
+ *
+ * The first occurrence of the key is updated in place and any further
+ * occurrences are removed; a missing tag is appended to the description.
+ *
+ * @param todo - Todo to update
+ * @param key - Tag key
+ * @param value - Tag value
+ * @param options - Parse options the todo was parsed with (`isTag` decides
+ * which words are tags)
+ * @returns New Todo
+ * @throws {RangeError} If the key or value is not a valid tag part, or the
+ * word would not be read back as a tag (such as the time `10:30`)
+ */
+export function setTag(
+	todo: Todo,
+	key: string,
+	value: string,
+	options: ParseOptions = {},
+): Todo {
+	assertTag(key, value, options);
+
+	let found = false;
+	const updated = editTokens(
+		todo,
+		(token) => {
+			if (token.type !== "tag" || token.key !== key) {
+				return undefined;
+			}
+			if (found) {
+				return null;
+			}
+			found = true;
+			return `${key}:${value}`;
+		},
+		options,
+	);
+
+	if (found) {
+		return updated;
+	}
+
+	return addTag(todo, key, value, options);
+}
+
+/**
+ * Append a tag, keeping existing values of the same key
+ *
+ * @param todo - Todo to update
+ * @param key - Tag key
+ * @param value - Tag value
+ * @param options - Parse options the todo was parsed with (`isTag` decides
+ * which words are tags)
+ * @returns New Todo
+ * @throws {RangeError} If the key or value is not a valid tag part, or the
+ * word would not be read back as a tag (such as the time `10:30`)
+ */
+export function addTag(
+	todo: Todo,
+	key: string,
+	value: string,
+	options: ParseOptions = {},
+): Todo {
+	assertTag(key, value, options);
+
+	return rebuild(
+		todo,
+		{ description: appendWord(todo, `${key}:${value}`) },
+		options,
+	);
+}
+
+/**
+ * Remove a tag from the description
+ *
+ * @param todo - Todo to update
+ * @param key - Tag key
+ * @param value - Only remove tags with this value (all values if omitted)
+ * @param options - Parse options the todo was parsed with
+ * @returns New Todo
+ */
+export function removeTag(
+	todo: Todo,
+	key: string,
+	value?: string,
+	options: ParseOptions = {},
+): Todo {
+	return editTokens(
+		todo,
+		(token) =>
+			token.type === "tag" &&
+			token.key === key &&
+			(value === undefined || token.value === value)
+				? null
+				: undefined,
+		options,
+	);
+}
+
+/**
+ * Mark a todo as completed
+ *
+ * Adds the completion date and, following todo.txt convention, moves the
+ * priority into a tag (`pri:A` by default) since completed tasks carry no
+ * priority.
+ *
+ * @param todo - Todo to complete
+ * @param options - Completion options
+ * @returns New Todo (the original if it is already completed)
+ * @throws {RangeError} If the completion date is not a valid date
+ *
+ * @example
+ * ```ts
+ * completeTodo(parseTodoLine("(A) 2024-01-01 Call Mom"), { date: "2024-01-05" });
+ * // raw: "x 2024-01-05 2024-01-01 Call Mom pri:A"
+ * ```
+ */
+export function completeTodo(
+	todo: Todo,
+	options: CompletionOptions = {},
+): Todo {
+	if (todo.completed) {
+		return todo;
+	}
+
+	const { date = formatDate(new Date()), priorityTag = "pri" } = options;
+	if (!isValidDate(date)) {
+		throw new RangeError(`Invalid completion date "${date}"`);
+	}
+
+	let next = todo;
+	if (todo.priority && priorityTag !== false) {
+		next = setTag(next, priorityTag, todo.priority, options);
+	}
+
+	return rebuild(
+		next,
+		{ completed: true, completionDate: date, priority: undefined },
+		options,
+	);
+}
+
+/**
+ * Mark a completed todo as not completed
+ *
+ * Removes the completion date and restores the priority from its tag
+ * (`pri:A` by default).
+ *
+ * @param todo - Todo to reopen
+ * @param options - Completion options (`date` is ignored)
+ * @returns New Todo (the original if it is not completed)
+ */
+export function uncompleteTodo(
+	todo: Todo,
+	options: CompletionOptions = {},
+): Todo {
+	if (!todo.completed) {
+		return todo;
+	}
+
+	const { priorityTag = "pri" } = options;
+	let next = todo;
+	let priority = todo.priority;
+
+	if (priorityTag !== false) {
+		const [value] = getTagValues(todo, priorityTag);
+		if (value && /^[A-Z]$/.test(value)) {
+			priority = value;
+			next = removeTag(next, priorityTag, undefined, options);
+		}
+	}
+
+	return rebuild(
+		next,
+		{ completed: false, completionDate: undefined, priority },
+		options,
+	);
+}
+
+/**
+ * Complete the tasks on the given physical lines of the content
+ *
+ * Lines that are not tasks or already completed are left untouched.
+ *
+ * @param content - File content
+ * @param lines - Zero-based physical line indexes
+ * @param options - Completion options
+ * @returns Updated file content
+ */
+export function completeTasksAtLines(
+	content: string,
+	lines: number[],
+	options: CompletionOptions = {},
+): string {
+	return updateTasksAtLines(content, lines, (todo) =>
+		completeTodo(todo, options),
+	);
+}
+
+/**
+ * Reopen the tasks on the given physical lines of the content
+ *
+ * Lines that are not tasks or not completed are left untouched.
+ *
+ * @param content - File content
+ * @param lines - Zero-based physical line indexes
+ * @param options - Completion options (`date` is ignored)
+ * @returns Updated file content
+ */
+export function uncompleteTasksAtLines(
+	content: string,
+	lines: number[],
+	options: CompletionOptions = {},
+): string {
+	return updateTasksAtLines(content, lines, (todo) =>
+		uncompleteTodo(todo, options),
+	);
+}
+
+function updateTasksAtLines(
+	content: string,
+	lines: number[],
+	update: (todo: Todo) => Todo,
+): string {
+	const original = parseTodoDocument(content);
+	let doc = original;
+
+	for (const line of new Set(lines)) {
+		const todo = original.lines[line]?.todo;
+		if (!todo) {
+			continue;
+		}
+
+		const updated = update(todo);
+		if (updated !== todo) {
+			doc = setDocumentTask(doc, line, updated);
+		}
+	}
+
+	return doc === original ? content : serializeTodoDocument(doc);
+}
+
+/**
+ * Re-parse a todo after applying changes so that the structured fields match
+ * the serialized text, using the caller's parse options. The physical line and
+ * id of the original are kept so the result can be written back with
+ * `updateLine` or `updateTaskById`.
+ */
+function rebuild(
+	todo: Todo,
+	changes: Partial<Todo>,
+	options: ParseOptions,
+): Todo {
+	const next = parseTodoLine(serializeTodo({ ...todo, ...changes }), options);
+
+	if (todo.line !== undefined) {
+		next.line = todo.line;
+	}
+	if (todo.id !== undefined) {
+		next.id = todo.id;
+	}
+
+	return next;
+}
+
+/**
+ * Replace or remove description tokens of a todo (internal to the package)
+ */
+export function editTokens(
+	todo: Todo,
+	edit: TokenEdit,
+	options: ParseOptions = {},
+): Todo {
+	const line = serializeTodo(todo);
+	const bodyStart = line.length - todo.description.length;
+	let description = todo.description;
+	let changed = false;
+
+	const edits = scanTodoLine(line, options)
+		.tokens.filter((token) => token.start >= bodyStart && token.type !== "text")
+		.map((token) => ({ token, replacement: edit(token) }));
+
+	// Apply right to left so earlier offsets stay valid
+	for (const { token, replacement } of edits.reverse()) {
+		if (replacement === undefined) {
+			continue;
+		}
+
+		let start = token.start - bodyStart;
+		let end = token.end - bodyStart;
+		if (replacement === null) {
+			// Take one neighbouring space with the removed word
+			if (start > 0 && description.charAt(start - 1) === " ") {
+				start--;
+			} else if (description.charAt(end) === " ") {
+				end++;
+			}
+		}
+
+		description =
+			description.slice(0, start) +
+			(replacement ?? "") +
+			description.slice(end);
+		changed = true;
+	}
+
+	return changed ? rebuild(todo, { description }, options) : todo;
+}
+
+function appendWord(todo: Todo, word: string): string {
+	return todo.description.length > 0 ? `${todo.description} ${word}` : word;
+}
+
+function assertWord(name: string, kind: string): void {
+	if (!/^\S+$/.test(name)) {
+		throw new RangeError(`Invalid ${kind} name "${name}"`);
+	}
+}
+
+function assertTag(key: string, value: string, options: ParseOptions): void {
+	if (!/^[^\s:]+$/.test(key) || !/^\S+$/.test(value)) {
+		throw new RangeError(`Invalid tag "${key}:${value}"`);
+	}
+	if (!(options.isTag ?? isTodoTag)(key, value)) {
+		throw new RangeError(`"${key}:${value}" would not be read as a tag`);
+	}
+}
@@ -0,0 +1,13 @@
+/**
+ * todotxt-parser/node
+ *
+ * Node.js file adapter and the `todotxt` command line. The main entry point
+ * stays free of Node.js dependencies.
+ *
+ * @packageDocumentation
+ */
+
+export { runTodoCli } from "./cli";
+export { TodoFileConflictError } from "./errors";
+export { TodoFile } from "./file";
+export type { TodoCliOptions, TodoFileOptions } from "./types";
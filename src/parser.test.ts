@@ -1,13 +1,27 @@
 import { describe, expect, it } from "vitest";
 import {
+	appendDocumentTask,
 	appendTaskToFile,
+	deleteLine,
 	deleteTaskAtLine,
+	deleteTaskById,
+	editTodoDocument,
+	moveDocumentLine,
+	moveLine,
+	moveTaskById,
+	parseTodoDocument,
 	parseTodoLine,
 	parseTodoTxt,
+	removeDocumentLine,
 	serializeTodo,
+	serializeTodoDocument,
+	setDocumentTask,
+	updateLine,
 	updateTaskAtLine,
+	updateTaskById,
 	updateTodoInList,
 } from "./parser";
+import { isTodoTag } from "./tokenizer";
 import type { Todo } from "./types";
 
 describe("parse completion", () => {
@@ -1038,10 +1052,9 @@ describe("tag edge cases", () => {
 		expect(result.description).toBe("Task key:val:ue");
 	});
 
-	it("T-08: http://example.com URL（実装ポリシー: http://の部分が抽出される）", () => {
+	it("T-08: http://example.com URLはタグではない", () => {
 		const result = parseTodoLine("Task http://example.com");
-		// http: が1つのタグとして認識される
-		expect(result.tags.http).toBeDefined();
+		expect(result.tags).toEqual({});
 		expect(result.description).toBe("Task http://example.com");
 	});
 
@@ -1070,6 +1083,60 @@ describe("tag edge cases", () => {
 	});
 });
 
+describe("tag recognition", () => {
+	it("TR-01: https URLはタグではない", () => {
+		const result = parseTodoLine(
+			"Read https://example.com/a?b=c:d docs:https://example.com",
+		);
+		expect(result.tags).toEqual({ docs: "https://example.com" });
+	});
+
+	it("TR-02: mailto: などの URL スキームはタグではない", () => {
+		const result = parseTodoLine("Email mailto:bob@example.com tel:+81-3-0000");
+		expect(result.tags).toEqual({});
+	});
+
+	it("TR-03: 時刻はタグではない", () => {
+		const result = parseTodoLine("Meet at 10:30 or 9:05am until 17:00:00");
+		expect(result.tags).toEqual({});
+	});
+
+	it("TR-04: Windowsパスはタグではない", () => {
+		const result = parseTodoLine("Open C:\\Users\\me\\todo.txt and D:/work");
+		expect(result.tags).toEqual({});
+	});
+
+	it("TR-05: キーが空またはコロンのみのものはタグではない", () => {
+		const result = parseTodoLine("Task ::x :y");
+		expect(result.tags).toEqual({});
+	});
+
+	it("TR-06: 時刻を値に持つタグは有効", () => {
+		const result = parseTodoLine("Task at:10:30 url:http://example.com");
+		expect(result.tags).toEqual({ at: "10:30", url: "http://example.com" });
+	});
+
+	it("TR-07: isTagオプションで認識ルールを差し替えられる", () => {
+		const result = parseTodoLine("Task due:2024-01-01 note:x http://a.b", {
+			isTag: (key) => key === "due",
+		});
+		expect(result.tags).toEqual({ due: "2024-01-01" });
+	});
+
+	it("TR-08: isTodoTagを拡張できる", () => {
+		const result = parseTodoLine("Task 10:30 est:1h", {
+			isTag: (key, value) => isTodoTag(key, value) && key !== "est",
+		});
+		expect(result.tags).toEqual({});
+	});
+
+	it("TR-09: ドキュメントの更新でもisTagを使う", () => {
+		const doc = parseTodoDocument("Task", { isTag: () => false });
+		const updated = setDocumentTask(doc, 0, parseTodoLine("Task due:x"));
+		expect(updated.lines[0]?.todo?.tags).toEqual({});
+	});
+});
+
 describe("completion mark edge cases", () => {
 	it("X-01: x Task 正常な完了マーク", () => {
 		const result = parseTodoLine("x Task");
@@ -1290,3 +1357,316 @@ describe("practical combined patterns", () => {
 		);
 	});
 });
+
+describe("lossless document model", () => {
+	it("DOC-01: 未変更のドキュメントは入力をそのまま再現する", () => {
+		const inputs = [
+			"",
+			"Task 1",
+			"Task 1\n",
+			"Task 1\r\n\r\nTask 2\r\n",
+			"Task 1\n\n\n  \nTask 2",
+			"# comment\nTask 1\r\nTask 2\n",
+		];
+
+		for (const input of inputs) {
+			expect(serializeTodoDocument(parseTodoDocument(input))).toBe(input);
+		}
+	});
+
+	it("DOC-02: 行種別と改行コードを保持する", () => {
+		const doc = parseTodoDocument("Task 1\r\n\nTask 2");
+
+		expect(doc.lines.map((line) => line.kind)).toEqual([
+			"task",
+			"blank",
+			"task",
+		]);
+		expect(doc.lines.map((line) => line.eol)).toEqual(["\r\n", "\n", ""]);
+		expect(doc.lines[0]?.todo?.description).toBe("Task 1");
+		expect(doc.lines[1]?.todo).toBeUndefined();
+	});
+
+	it("DOC-03: commentPrefixを指定するとコメント行として扱う", () => {
+		const doc = parseTodoDocument("# header\nTask 1", { commentPrefix: "#" });
+
+		expect(doc.lines[0]?.kind).toBe("comment");
+		expect(doc.lines[0]?.todo).toBeUndefined();
+		expect(doc.lines[1]?.kind).toBe("task");
+	});
+
+	it("DOC-04: 多数派の改行コードを新規行に使う", () => {
+		expect(parseTodoDocument("a\r\nb\r\nc\n").newline).toBe("\r\n");
+		expect(parseTodoDocument("a\nb").newline).toBe("\n");
+	});
+
+	it("DOC-05: 変更した行だけを書き換え、改行コードを維持する", () => {
+		const doc = parseTodoDocument("Task 1\r\n\r\n(B)   Task 2\r\n");
+		const todo = parseTodoLine("x 2026-01-08 Task 1");
+
+		const result = serializeTodoDocument(setDocumentTask(doc, 0, todo));
+
+		expect(result).toBe("x 2026-01-08 Task 1\r\n\r\n(B)   Task 2\r\n");
+	});
+
+	it("DOC-06: 最終行を削除しても末尾改行の有無を維持する", () => {
+		const withoutNewline = parseTodoDocument("Task 1\nTask 2");
+		expect(serializeTodoDocument(removeDocumentLine(withoutNewline, 1))).toBe(
+			"Task 1",
+		);
+
+		const withNewline = parseTodoDocument("Task 1\r\nTask 2\r\n");
+		expect(serializeTodoDocument(removeDocumentLine(withNewline, 1))).toBe(
+			"Task 1\r\n",
+		);
+	});
+
+	it("DOC-07: 追加時に末尾改行の有無と改行コードを維持する", () => {
+		const todo = parseTodoLine("Task 3");
+
+		expect(
+			serializeTodoDocument(
+				appendDocumentTask(parseTodoDocument("Task 1\r\nTask 2\r\n"), todo),
+			),
+		).toBe("Task 1\r\nTask 2\r\nTask 3\r\n");
+		expect(
+			serializeTodoDocument(
+				appendDocumentTask(parseTodoDocument("Task 1\r\nTask 2"), todo),
+			),
+		).toBe("Task 1\r\nTask 2\r\nTask 3");
+	});
+
+	it("DOC-08: 範囲外のインデックスでは元のドキュメントを返す", () => {
+		const doc = parseTodoDocument("Task 1");
+
+		expect(removeDocumentLine(doc, 3)).toBe(doc);
+		expect(setDocumentTask(doc, -1, parseTodoLine("Task 2"))).toBe(doc);
+	});
+});
+
+describe("file operations preserve layout", () => {
+	it("L-01: updateTaskAtLineは空行・CRLF・末尾改行を維持する", () => {
+		const content = "(A) Task 1\r\n\r\nTask  2\r\n\r\nTask 3\r\n";
+		const updated = parseTodoLine("x Task 3");
+
+		const result = updateTaskAtLine(content, 2, updated);
+
+		expect(result).toBe("(A) Task 1\r\n\r\nTask  2\r\n\r\nx Task 3\r\n");
+	});
+
+	it("L-02: deleteTaskAtLineは対象行以外を維持する", () => {
+		const content = "Task 1\n\nTask 2\n# note\nTask 3\n";
+
+		const result = deleteTaskAtLine(content, 1);
+
+		expect(result).toBe("Task 1\n\n# note\nTask 3\n");
+	});
+
+	it("L-03: appendTaskToFileは末尾改行があるファイルに空行を作らない", () => {
+		const result = appendTaskToFile("Task 1\n", parseTodoLine("Task 2"));
+
+		expect(result).toBe("Task 1\nTask 2\n");
+	});
+
+	it("L-04: parseTodoTxtはCRLFの\\rをrawに含めない", () => {
+		const result = parseTodoTxt("Task 1\r\nTask 2\r\n");
+
+		expect(result.map((todo) => todo.raw)).toEqual(["Task 1", "Task 2"]);
+	});
+});
+
+describe("physical lines and task identity", () => {
+	it("I-01: parseTodoTxtは物理行番号を設定する", () => {
+		const result = parseTodoTxt("Task 1\n\n\nTask 2\n");
+
+		expect(result.map((todo) => todo.line)).toEqual([0, 3]);
+	});
+
+	it("I-02: 同一内容の行は出現順で区別される", () => {
+		const result = parseTodoTxt("Same\nOther\nSame");
+
+		expect(result[0]?.id).not.toBe(result[2]?.id);
+		expect(result[0]?.id?.endsWith("-0")).toBe(true);
+		expect(result[2]?.id?.endsWith("-1")).toBe(true);
+	});
+
+	it("I-03: idは他の行の追加・削除で変わらない", () => {
+		const before = parseTodoTxt("Task 1\nTask 2");
+		const after = parseTodoTxt("New task\n\nTask 1\nTask 2");
+
+		expect(after[1]?.id).toBe(before[0]?.id);
+		expect(after[2]?.id).toBe(before[1]?.id);
+		expect(after[2]?.line).toBe(3);
+	});
+
+	it("I-04: updateLineは物理行番号で更新する", () => {
+		const content = "Task 1\n\nTask 2\n";
+
+		expect(updateLine(content, 2, parseTodoLine("x Task 2"))).toBe(
+			"Task 1\n\nx Task 2\n",
+		);
+		expect(updateLine(content, 9, parseTodoLine("x Task 2"))).toBe(content);
+	});
+
+	it("I-05: deleteLineは物理行番号で削除する", () => {
+		expect(deleteLine("Task 1\n\nTask 2", 1)).toBe("Task 1\nTask 2");
+		expect(deleteLine("Task 1\n\nTask 2", 2)).toBe("Task 1\n");
+	});
+
+	it("I-06: moveLineは末尾改行の有無を維持する", () => {
+		expect(moveLine("Task 1\nTask 2\nTask 3", 2, 0)).toBe(
+			"Task 3\nTask 1\nTask 2",
+		);
+		expect(moveLine("Task 1\r\nTask 2\r\n", 0, 1)).toBe("Task 2\r\nTask 1\r\n");
+		expect(moveLine("Task 1", 0, 4)).toBe("Task 1");
+	});
+
+	it("I-07: idで更新・削除・移動できる", () => {
+		const content = "Task 1\n\nTask 2\nTask 1\n";
+		const [, , second] = parseTodoTxt(content);
+		const id = second?.id ?? "";
+
+		expect(updateTaskById(content, id, parseTodoLine("x Task 1"))).toBe(
+			"Task 1\n\nTask 2\nx Task 1\n",
+		);
+		expect(deleteTaskById(content, id)).toBe("Task 1\n\nTask 2\n");
+		expect(moveTaskById(content, id, 0)).toBe("Task 1\nTask 1\n\nTask 2\n");
+	});
+
+	it("I-08: 存在しないidでは元のコンテンツを返す", () => {
+		const content = "Task 1";
+
+		expect(deleteTaskById(content, "missing-0")).toBe(content);
+		expect(updateTaskById(content, "missing-0", parseTodoLine("x"))).toBe(
+			content,
+		);
+		expect(moveTaskById(content, "missing-0", 0)).toBe(content);
+	});
+
+	it("I-09: ドキュメント操作後も行番号が振り直される", () => {
+		const doc = moveDocumentLine(parseTodoDocument("A\nB\nC"), 0, 2);
+
+		expect(doc.lines.map((line) => line.todo?.line)).toEqual([0, 1, 2]);
+		expect(doc.lines.map((line) => line.text)).toEqual(["B", "C", "A"]);
+	});
+
+	it("I-10: 空行を末尾へ移動しても行が失われない", () => {
+		const doc = moveDocumentLine(
+			parseTodoDocument("task one\n\ntask two"),
+			1,
+			2,
+		);
+		const content = serializeTodoDocument(doc);
+
+		expect(content).toBe("task one\ntask two\n\n");
+		expect(parseTodoDocument(content).lines).toHaveLength(doc.lines.length);
+		expect(doc.lines.map((line) => line.kind)).toEqual([
+			"task",
+			"task",
+			"blank",
+		]);
+	});
+});
+
+describe("incremental document edits", () => {
+	const apply = (content: string, start: number, end: number, text: string) =>
+		content.slice(0, start) + text + content.slice(end);
+
+	it("E-01: 1行内の編集はその行だけを再解析する", () => {
+		const doc = parseTodoDocument("Task 1\n\nTask 2 +work\n");
+		const edited = editTodoDocument(doc, { start: 8, end: 8, text: "(A) " });
+
+		expect(edited.lines[2]?.todo?.priority).toBe("A");
+		expect(edited.lines[0]).toBe(doc.lines[0]);
+		expect(serializeTodoDocument(edited)).toBe("Task 1\n\n(A) Task 2 +work\n");
+	});
+
+	it("E-02: 改行の挿入と削除で行が分割・結合される", () => {
+		const doc = parseTodoDocument("Task 1\r\nTask 2\r\n");
+
+		const split = editTodoDocument(doc, { start: 4, end: 5, text: "\r\n" });
+		expect(split.lines.map((line) => line.text)).toEqual([
+			"Task",
+			"1",
+			"Task 2",
+		]);
+
+		const joined = editTodoDocument(doc, { start: 6, end: 8, text: " and " });
+		expect(joined.lines.map((line) => line.text)).toEqual([
+			"Task 1 and Task 2",
+		]);
+		expect(joined.lines[0]?.todo?.line).toBe(0);
+	});
+
+	it("E-03: 空の文書や末尾への追加", () => {
+		const empty = editTodoDocument(parseTodoDocument(""), {
+			start: 0,
+			end: 0,
+			text: "Task\n",
+		});
+		expect(serializeTodoDocument(empty)).toBe("Task\n");
+
+		const appended = editTodoDocument(parseTodoDocument("Task 1"), {
+			start: 6,
+			end: 6,
+			text: "\nTask 2",
+		});
+		expect(appended.lines.map((line) => line.todo?.line)).toEqual([0, 1]);
+	});
+
+	it("E-04: 一連の編集結果は全体の再解析と一致する", () => {
+		let content =
+			"(A) Task 1 +work\n\nx 2024-01-05 Done\n# note\nTask 3 due:2024-01-10";
+		let doc = parseTodoDocument(content, { commentPrefix: "#" });
+		const edits: Array<[number, number, string]> = [
+			[0, 4, ""],
+			[10, 12, "\n\nNew @home "],
+			[3, 3, "x"],
+			[20, 40, ""],
+			[0, 0, "# header\n"],
+		];
+
+		for (const [start, end, text] of edits) {
+			const from = Math.min(start, content.length);
+			const to = Math.min(end, content.length);
+			doc = editTodoDocument(doc, { start: from, end: to, text });
+			content = apply(content, from, to, text);
+
+			expect(doc).toEqual(parseTodoDocument(content, { commentPrefix: "#" }));
+		}
+	});
+
+	it("E-06: 重複行のidは全体の再解析と一致し、影響のない行は再利用する", () => {
+		let content = "Task\nOther\nTask\n\nTask\nLast\n";
+		let doc = parseTodoDocument(content);
+		const edits: Array<[number, number, string]> = [
+			[0, 4, "Other"],
+			[0, 5, "Task"],
+			[5, 11, ""],
+			[0, 0, "Task\n"],
+			[10, 10, "\nTask"],
+		];
+
+		for (const [start, end, text] of edits) {
+			const previous = doc;
+			doc = editTodoDocument(doc, { start, end, text });
+			content = apply(content, start, end, text);
+
+			expect(doc).toEqual(parseTodoDocument(content));
+			if (doc.lines.length === previous.lines.length) {
+				expect(doc.lines.at(-1)).toBe(previous.lines.at(-1));
+			}
+		}
+	});
+
+	it("E-05: 範囲外の編集はRangeError", () => {
+		const doc = parseTodoDocument("Task");
+
+		expect(() => editTodoDocument(doc, { start: 2, end: 1, text: "" })).toThrow(
+			RangeError,
+		);
+		expect(() => editTodoDocument(doc, { start: 0, end: 5, text: "" })).toThrow(
+			RangeError,
+		);
+	});
+});
@@ -1,9 +1,20 @@
-import type { Todo } from "./types";
+import { scanTodoLine } from "./tokenizer";
+import type {
+	LineEnding,
+	ParseOptions,
+	TextEdit,
+	Todo,
+	TodoDocument,
+	TodoDocumentLine,
+	TodoDocumentOptions,
+	TodoTag,
+} from "./types";
 
 /**
  * Parse multiple lines of todo.txt format into an array of Todo objects
  *
  * @param text - Multi-line string in todo.txt format
+ * @param options - Document options
  * @returns Array of parsed Todo objects
  *
  * @example
@@ -11,14 +22,15 @@ import type { Todo } from "./types";
  * const todos = parseTodoTxt("x 2024-01-01 Buy milk +shopping\nCall mom @phone");
  * ```
  */
-export function parseTodoTxt(text: string): Todo[] {
-	const lines = text.split("\n");
+export function parseTodoTxt(
+	text: string,
+	options: TodoDocumentOptions = {},
+): Todo[] {
 	const todos: Todo[] = [];
 
-	for (const line of lines) {
-		const trimmed = line.trim();
-		if (trimmed.length > 0) {
-			todos.push(parseTodoLine(line));
+	for (const line of parseTodoDocument(text, options).lines) {
+		if (line.todo) {
+			todos.push(line.todo);
 		}
 	}
 
@@ -29,6 +41,7 @@ export function parseTodoTxt(text: string): Todo[] {
  * Parse a single line of todo.txt format
  *
  * @param line - A single line in todo.txt format
+ * @param options - Parse options
  * @returns Parsed Todo object
  *
  * @example
@@ -42,85 +55,49 @@ export function parseTodoTxt(text: string): Todo[] {
  * //   projects: ["shopping"],
  * //   contexts: ["errands"],
  * //   tags: { due: "2024-01-15" },
+ * //   tagEntries: [{ key: "due", value: "2024-01-15" }],
  * //   raw: "(A) 2024-01-01 Buy milk +shopping @errands due:2024-01-15"
  * // }
  * ```
  */
-export function parseTodoLine(line: string): Todo {
-	const trimmed = line.trim();
+export function parseTodoLine(line: string, options: ParseOptions = {}): Todo {
+	const { tokens, bodyStart, bodyEnd } = scanTodoLine(line, options);
 
-	// Parse completion mark
-	const completed = trimmed.startsWith("x ");
-
-	// Parse priority
+	let completed = false;
 	let priority: string | undefined;
-	let remaining = completed ? trimmed.slice(2).trim() : trimmed;
-
-	const priorityMatch = remaining.match(/^\(([A-Z])\)\s/);
-	if (priorityMatch) {
-		priority = priorityMatch[1];
-		remaining = remaining.slice(priorityMatch[0].length);
-	}
-
-	// Parse dates (YYYY-MM-DD format)
 	let completionDate: string | undefined;
 	let creationDate: string | undefined;
-	const dateRegex = /^(\d{4}-\d{2}-\d{2})\s/;
-
-	// First date
-	const firstDateMatch = remaining.match(dateRegex);
-	if (firstDateMatch) {
-		remaining = remaining.slice(firstDateMatch[0].length);
-
-		// Second date
-		const secondDateMatch = remaining.match(dateRegex);
-		if (secondDateMatch) {
-			// Two dates: first is completion date (for completed tasks), second is creation date
-			completionDate = firstDateMatch[1];
-			creationDate = secondDateMatch[1];
-			remaining = remaining.slice(secondDateMatch[0].length);
-		} else {
-			// One date: it's completion date if completed, creation date otherwise
-			if (completed) {
-				completionDate = firstDateMatch[1];
-			} else {
-				creationDate = firstDateMatch[1];
-			}
-		}
-	}
-
-	// Parse projects and contexts from the entire line
 	const projects: string[] = [];
 	const contexts: string[] = [];
-
-	// +project (+ followed by non-whitespace, with space or start-of-line before)
-	const projectMatches = trimmed.matchAll(/(?:^|\s)\+(\S+)/g);
-	for (const match of projectMatches) {
-		if (match[1]) {
-			projects.push(match[1]);
-		}
-	}
-
-	// @context (@ followed by non-whitespace, with space or start-of-line before)
-	const contextMatches = trimmed.matchAll(/(?:^|\s)@(\S+)/g);
-	for (const match of contextMatches) {
-		if (match[1]) {
-			contexts.push(match[1]);
-		}
-	}
-
-	// Parse tags (key:value format)
 	const tags: Record<string, string> = {};
-	const tagMatches = trimmed.matchAll(/(\S+?):(\S+)/g);
-	for (const match of tagMatches) {
-		// Skip if it's a project or context (already parsed)
-		if (
-			match[1] &&
-			match[2] &&
-			!match[0].startsWith("+") &&
-			!match[0].startsWith("@")
-		) {
-			tags[match[1]] = match[2];
+	const tagEntries: TodoTag[] = [];
+
+	for (const token of tokens) {
+		switch (token.type) {
+			case "completion":
+				completed = true;
+				break;
+			case "priority":
+				priority = token.value;
+				break;
+			case "completionDate":
+				completionDate = token.value;
+				break;
+			case "creationDate":
+				creationDate = token.value;
+				break;
+			case "project":
+				projects.push(token.value ?? "");
+				break;
+			case "context":
+				contexts.push(token.value ?? "");
+				break;
+			case "tag": {
+				const tag = { key: token.key ?? "", value: token.value ?? "" };
+				tags[tag.key] = tag.value;
+				tagEntries.push(tag);
+				break;
+			}
 		}
 	}
 
@@ -129,11 +106,13 @@ export function parseTodoLine(line: string): Todo {
 		priority,
 		completionDate,
 		creationDate,
-		description: remaining,
+		description: line.slice(bodyStart, bodyEnd),
 		projects,
 		contexts,
 		tags,
+		tagEntries,
 		raw: line,
+		...(options.tokens ? { tokens } : {}),
 	};
 }
 
@@ -217,6 +196,484 @@ export function updateTodoInList(
 	return updatedTodos.map(serializeTodo).join("\n");
 }
 
+/**
+ * Parse todo.txt content into a lossless document
+ *
+ * Every physical line is kept, including blank lines and comments, together
+ * with its original line ending. Each parsed task carries its physical `line`
+ * index and a stable `id`.
+ *
+ * @param text - File content
+ * @param options - Document options
+ * @returns Parsed document
+ *
+ * @example
+ * ```ts
+ * const doc = parseTodoDocument("Task 1\r\n\r\nTask 2\r\n");
+ * serializeTodoDocument(doc); // "Task 1\r\n\r\nTask 2\r\n"
+ * ```
+ */
+export function parseTodoDocument(
+	text: string,
+	options: TodoDocumentOptions = {},
+): TodoDocument {
+	const lines = splitLines(text);
+	const crlf = lines.filter((line) => line.eol === "\r\n").length;
+	const lf = lines.filter((line) => line.eol === "\n").length;
+
+	return {
+		lines: indexDocumentLines(
+			lines.map((line) => createDocumentLine(line.text, line.eol, options)),
+		),
+		newline: crlf > lf ? "\r\n" : "\n",
+		options,
+	};
+}
+
+/**
+ * Serialize a document back to todo.txt content
+ *
+ * Lines are emitted exactly as stored, so unmodified lines are reproduced
+ * byte for byte.
+ *
+ * @param doc - Document to serialize
+ * @returns File content
+ */
+export function serializeTodoDocument(doc: TodoDocument): string {
+	let result = "";
+
+	for (const line of doc.lines) {
+		result += line.text + line.eol;
+	}
+
+	return result;
+}
+
+/**
+ * Replace the physical line at the given index with a task
+ *
+ * The line keeps its original line ending; all other lines are untouched.
+ *
+ * @param doc - Document to update
+ * @param lineIndex - Zero-based physical line index
+ * @param todo - Task to write
+ * @returns New document (the original is returned if the index is out of bounds)
+ */
+export function setDocumentTask(
+	doc: TodoDocument,
+	lineIndex: number,
+	todo: Todo,
+): TodoDocument {
+	const current = doc.lines[lineIndex];
+	if (!current) {
+		return doc;
+	}
+
+	const lines = [...doc.lines];
+	lines[lineIndex] = createTaskLine(
+		serializeTodo(todo),
+		current.eol,
+		doc.options,
+	);
+
+	return { ...doc, lines: indexDocumentLines(lines) };
+}
+
+/**
+ * Remove the physical line at the given index
+ *
+ * When the last line is removed, the new last line takes over its line ending
+ * so the file's trailing-newline state is preserved.
+ *
+ * @param doc - Document to update
+ * @param lineIndex - Zero-based physical line index
+ * @returns New document (the original is returned if the index is out of bounds)
+ */
+export function removeDocumentLine(
+	doc: TodoDocument,
+	lineIndex: number,
+): TodoDocument {
+	const removed = doc.lines[lineIndex];
+	if (!removed) {
+		return doc;
+	}
+
+	const lines = doc.lines.filter((_line, index) => index !== lineIndex);
+
+	const last = lines[lines.length - 1];
+	if (lineIndex === lines.length && last) {
+		lines[lines.length - 1] = { ...last, eol: removed.eol };
+	}
+
+	return { ...doc, lines: indexDocumentLines(lines) };
+}
+
+/**
+ * Append a task as a new line at the end of the document
+ *
+ * The new line uses the document's dominant line ending and the file's
+ * trailing-newline state is preserved.
+ *
+ * @param doc - Document to update
+ * @param todo - Task to append
+ * @returns New document
+ */
+export function appendDocumentTask(
+	doc: TodoDocument,
+	todo: Todo,
+): TodoDocument {
+	const lines = [...doc.lines];
+	const last = lines[lines.length - 1];
+	let eol: LineEnding = "";
+
+	if (last) {
+		if (last.eol === "") {
+			lines[lines.length - 1] = { ...last, eol: doc.newline };
+		} else {
+			eol = doc.newline;
+		}
+	}
+
+	lines.push(createTaskLine(serializeTodo(todo), eol, doc.options));
+
+	return { ...doc, lines: indexDocumentLines(lines) };
+}
+
+/**
+ * Move the physical line at one index to another
+ *
+ * The file's trailing-newline state is preserved regardless of which line
+ * ends up last, except when an empty line ends up last: it keeps its line
+ * ending, since an empty last line without one would vanish from the file.
+ *
+ * @param doc - Document to update
+ * @param fromIndex - Zero-based physical line index to move
+ * @param toIndex - Zero-based physical line index the line ends up at
+ * @returns New document (the original is returned if either index is out of bounds)
+ */
+export function moveDocumentLine(
+	doc: TodoDocument,
+	fromIndex: number,
+	toIndex: number,
+): TodoDocument {
+	const moved = doc.lines[fromIndex];
+	if (!moved || !doc.lines[toIndex]) {
+		return doc;
+	}
+
+	const finalEol = doc.lines[doc.lines.length - 1]?.eol ?? "";
+	const lines = doc.lines.filter((_line, index) => index !== fromIndex);
+	lines.splice(toIndex, 0, moved);
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		if (!line) {
+			continue;
+		}
+		const eol =
+			i === lines.length - 1 && (finalEol !== "" || line.text !== "")
+				? finalEol
+				: line.eol || doc.newline;
+		if (eol !== line.eol) {
+			lines[i] = { ...line, eol };
+		}
+	}
+
+	return { ...doc, lines: indexDocumentLines(lines) };
+}
+
+/**
+ * Reorder the task lines of a document
+ *
+ * Tasks are sorted among themselves and written back into the physical slots
+ * previously held by tasks, so blank lines, comments and the line endings of
+ * each slot stay where they are. Task text is moved verbatim.
+ *
+ * @param doc - Document to update
+ * @param compare - Comparison function over the parsed tasks
+ * @returns New document
+ */
+export function sortDocumentTasks(
+	doc: TodoDocument,
+	compare: (a: Todo, b: Todo) => number,
+): TodoDocument {
+	const taskLines = doc.lines.filter(
+		(line): line is TodoDocumentLine & { todo: Todo } =>
+			line.todo !== undefined,
+	);
+	const sorted = [...taskLines].sort((a, b) => compare(a.todo, b.todo));
+
+	let next = 0;
+	const lines = doc.lines.map((line) => {
+		const replacement = line.todo ? sorted[next++] : undefined;
+		return replacement ? { ...replacement, eol: line.eol } : line;
+	});
+
+	return { ...doc, lines: indexDocumentLines(lines) };
+}
+
+/**
+ * Apply a text edit to a document, re-parsing only the lines it touches
+ *
+ * Meant for editors that keep a document in sync with a buffer: the result
+ * equals `parseTodoDocument` of the edited content, except that the document
+ * keeps its newline style. Only the edited lines are parsed and hashed, and
+ * lines before them are reused as is. Locating the edit and renumbering the
+ * lines after it still walk the document, so each edit is O(n) in the number
+ * of lines, with the lines after the edit reused when their line number and
+ * id are unchanged.
+ *
+ * @param doc - Document to update
+ * @param edit - Edit in offsets of the serialized document
+ * @returns New document
+ * @throws {RangeError} If the edit range is outside the content
+ *
+ * @example
+ * ```ts
+ * const doc = parseTodoDocument("Task 1\nTask 2\n");
+ * editTodoDocument(doc, { start: 7, end: 7, text: "(A) " });
+ * // lines[1].text: "(A) Task 2"
+ * ```
+ */
+export function editTodoDocument(
+	doc: TodoDocument,
+	edit: TextEdit,
+): TodoDocument {
+	const offsets: number[] = [];
+	let length = 0;
+	for (const line of doc.lines) {
+		offsets.push(length);
+		length += line.text.length + line.eol.length;
+	}
+
+	const { start, end, text } = edit;
+	if (start < 0 || start > end || end > length) {
+		throw new RangeError(`Invalid edit range ${start}-${end}`);
+	}
+
+	// Re-parse from the line holding the start to the line holding the end
+	const first = Math.max(lastIndexAtOrBefore(offsets, start), 0);
+	const last = lastIndexAtOrBefore(offsets, end);
+	const regionStart = offsets[first] ?? 0;
+	let region = "";
+	for (let i = first; i <= last; i++) {
+		const line = doc.lines[i];
+		region += line ? line.text + line.eol : "";
+	}
+
+	const edited =
+		region.slice(0, start - regionStart) +
+		text +
+		region.slice(end - regionStart);
+	const replacement = splitLines(edited).map((line) =>
+		createDocumentLine(line.text, line.eol, doc.options),
+	);
+
+	// Only ids sharing a hash with a removed or inserted task can change
+	const hashes = new Set<string>();
+	for (const line of [...doc.lines.slice(first, last + 1), ...replacement]) {
+		if (line.todo) {
+			hashes.add(lineHash(line));
+		}
+	}
+
+	const lines = [...doc.lines];
+	lines.splice(first, last - first + 1, ...replacement);
+
+	return { ...doc, lines: reindexDocumentLines(lines, first, hashes) };
+}
+
+/**
+ * Find the physical line index of a task by its id
+ *
+ * @param doc - Document to search
+ * @param id - Task id as assigned by {@link parseTodoDocument}
+ * @returns Physical line index, or -1 if no task has the id
+ */
+export function findTaskLineById(doc: TodoDocument, id: string): number {
+	return doc.lines.findIndex((line) => line.todo?.id === id);
+}
+
+/**
+ * Find the physical line index of the n-th task in a document
+ *
+ * @param doc - Document to search
+ * @param taskIndex - Zero-based index among task lines only
+ * @returns Physical line index, or -1 if there is no such task
+ */
+export function findTaskLineIndex(
+	doc: TodoDocument,
+	taskIndex: number,
+): number {
+	if (taskIndex < 0) {
+		return -1;
+	}
+
+	let seen = 0;
+	for (let i = 0; i < doc.lines.length; i++) {
+		if (doc.lines[i]?.kind === "task") {
+			if (seen === taskIndex) {
+				return i;
+			}
+			seen++;
+		}
+	}
+
+	return -1;
+}
+
+// Index of the last offset <= value, or -1 (offsets are ascending)
+function lastIndexAtOrBefore(offsets: number[], value: number): number {
+	let low = 0;
+	let high = offsets.length - 1;
+	let found = -1;
+
+	while (low <= high) {
+		const middle = (low + high) >> 1;
+		if ((offsets[middle] ?? 0) <= value) {
+			found = middle;
+			low = middle + 1;
+		} else {
+			high = middle - 1;
+		}
+	}
+
+	return found;
+}
+
+function splitLines(text: string): Array<{ text: string; eol: LineEnding }> {
+	const lines: Array<{ text: string; eol: LineEnding }> = [];
+	let start = 0;
+
+	while (start < text.length) {
+		const end = text.indexOf("\n", start);
+
+		if (end === -1) {
+			lines.push({ text: text.slice(start), eol: "" });
+			start = text.length;
+		} else if (end > start && text[end - 1] === "\r") {
+			lines.push({ text: text.slice(start, end - 1), eol: "\r\n" });
+			start = end + 1;
+		} else {
+			lines.push({ text: text.slice(start, end), eol: "\n" });
+			start = end + 1;
+		}
+	}
+
+	return lines;
+}
+
+/**
+ * Classify a physical line and parse it if it is a task (internal to the
+ * package)
+ */
+export function createDocumentLine(
+	text: string,
+	eol: LineEnding,
+	options: TodoDocumentOptions,
+): TodoDocumentLine {
+	const trimmed = text.trim();
+
+	if (trimmed.length === 0) {
+		return { kind: "blank", text, eol };
+	}
+
+	if (options.commentPrefix && trimmed.startsWith(options.commentPrefix)) {
+		return { kind: "comment", text, eol };
+	}
+
+	return createTaskLine(text, eol, options);
+}
+
+function createTaskLine(
+	text: string,
+	eol: LineEnding,
+	options: TodoDocumentOptions,
+): TodoDocumentLine {
+	return { kind: "task", text, eol, todo: parseTodoLine(text, options) };
+}
+
+function indexDocumentLines(lines: TodoDocumentLine[]): TodoDocumentLine[] {
+	const occurrences = new Map<string, number>();
+
+	return lines.map((line, index) => {
+		if (!line.todo) {
+			return line;
+		}
+
+		const hash = hashText(line.text.trim());
+		const occurrence = occurrences.get(hash) ?? 0;
+		occurrences.set(hash, occurrence + 1);
+
+		const id = `${hash}-${occurrence}`;
+		if (line.todo.line === index && line.todo.id === id) {
+			return line;
+		}
+
+		return { ...line, todo: { ...line.todo, line: index, id } };
+	});
+}
+
+// Renumber the lines from `from` on; only ids whose hash is in `hashes` are
+// recomputed, the others are unaffected by the change
+function reindexDocumentLines(
+	lines: TodoDocumentLine[],
+	from: number,
+	hashes: Set<string>,
+): TodoDocumentLine[] {
+	const occurrences = new Map<string, number>();
+	for (let i = 0; i < from; i++) {
+		const line = lines[i];
+		if (line?.todo) {
+			const hash = lineHash(line);
+			if (hashes.has(hash)) {
+				occurrences.set(hash, (occurrences.get(hash) ?? 0) + 1);
+			}
+		}
+	}
+
+	for (let i = from; i < lines.length; i++) {
+		const line = lines[i];
+		if (!line?.todo) {
+			continue;
+		}
+
+		let id = line.todo.id;
+		const hash = lineHash(line);
+		if (id === undefined || hashes.has(hash)) {
+			const occurrence = occurrences.get(hash) ?? 0;
+			occurrences.set(hash, occurrence + 1);
+			id = `${hash}-${occurrence}`;
+		}
+
+		if (line.todo.line !== i || line.todo.id !== id) {
+			lines[i] = { ...line, todo: { ...line.todo, line: i, id } };
+		}
+	}
+
+	return lines;
+}
+
+// Hash part of a line's id, computed only for lines not yet indexed
+function lineHash(line: TodoDocumentLine): string {
+	const id = line.todo?.id;
+	return id === undefined
+		? hashText(line.text.trim())
+		: id.slice(0, id.lastIndexOf("-"));
+}
+
+// 32-bit FNV-1a, enough to tell lines apart within a single file
+function hashText(text: string): string {
+	let hash = 0x811c9dc5;
+
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
 /**
  * Append a new task to the end of the file content
  *
@@ -225,20 +682,19 @@ export function updateTodoInList(
  * @returns Updated file content
  */
 export function appendTaskToFile(content: string, newTask: Todo): string {
-	const serializedTask = serializeTodo(newTask);
-
-	if (content.length === 0) {
-		return serializedTask;
-	}
-
-	return `${content}\n${serializedTask}`;
+	return serializeTodoDocument(
+		appendDocumentTask(parseTodoDocument(content), newTask),
+	);
 }
 
 /**
  * Update a task at a specific line index in the content
  *
+ * Only the targeted line is rewritten; blank lines, comments and line endings
+ * elsewhere in the file are preserved.
+ *
  * @param content - File content
- * @param lineIndex - Index of the line to update
+ * @param lineIndex - Index of the task to update (blank and comment lines are not counted)
  * @param updatedTodo - The updated Todo object
  * @returns Updated file content
  */
@@ -247,44 +703,160 @@ export function updateTaskAtLine(
 	lineIndex: number,
 	updatedTodo: Todo,
 ): string {
-	if (content.length === 0) {
-		return "";
-	}
+	const doc = parseTodoDocument(content);
+	const physicalIndex = findTaskLineIndex(doc, lineIndex);
 
-	const todos = parseTodoTxt(content);
-
-	if (lineIndex < 0 || lineIndex >= todos.length) {
+	if (physicalIndex === -1) {
 		return content;
 	}
 
-	return updateTodoInList(todos, lineIndex, updatedTodo);
+	return serializeTodoDocument(
+		setDocumentTask(doc, physicalIndex, updatedTodo),
+	);
 }
 
 /**
  * Delete a task at a specific line index in the content
  *
+ * Only the targeted line is removed; blank lines, comments and line endings
+ * elsewhere in the file are preserved.
+ *
  * @param content - File content
- * @param lineIndex - Index of the line to delete
+ * @param lineIndex - Index of the task to delete (blank and comment lines are not counted)
  * @returns Updated file content
  */
 export function deleteTaskAtLine(content: string, lineIndex: number): string {
-	if (content.length === 0) {
-		return "";
+	const doc = parseTodoDocument(content);
+	const physicalIndex = findTaskLineIndex(doc, lineIndex);
+
+	if (physicalIndex === -1) {
+		return content;
 	}
 
-	const todos = parseTodoTxt(content);
+	return serializeTodoDocument(removeDocumentLine(doc, physicalIndex));
+}
 
-	if (lineIndex < 0 || lineIndex >= todos.length) {
+/**
+ * Update the task on a physical line of the content
+ *
+ * @param content - File content
+ * @param line - Zero-based physical line index
+ * @param updatedTodo - The updated Todo object
+ * @returns Updated file content (unchanged if the line does not exist)
+ */
+export function updateLine(
+	content: string,
+	line: number,
+	updatedTodo: Todo,
+): string {
+	const doc = parseTodoDocument(content);
+
+	if (!doc.lines[line]) {
 		return content;
 	}
 
-	// Remove the task at the specified index
-	const updatedTodos = todos.filter((_todo, index) => index !== lineIndex);
+	return serializeTodoDocument(setDocumentTask(doc, line, updatedTodo));
+}
+
+/**
+ * Delete a physical line of the content
+ *
+ * @param content - File content
+ * @param line - Zero-based physical line index
+ * @returns Updated file content (unchanged if the line does not exist)
+ */
+export function deleteLine(content: string, line: number): string {
+	const doc = parseTodoDocument(content);
 
-	// Return empty string if all tasks are deleted
-	if (updatedTodos.length === 0) {
-		return "";
+	if (!doc.lines[line]) {
+		return content;
 	}
 
-	return updatedTodos.map(serializeTodo).join("\n");
+	return serializeTodoDocument(removeDocumentLine(doc, line));
+}
+
+/**
+ * Move a physical line of the content to another position
+ *
+ * @param content - File content
+ * @param fromLine - Zero-based physical line index to move
+ * @param toLine - Zero-based physical line index the line ends up at
+ * @returns Updated file content (unchanged if either line does not exist)
+ */
+export function moveLine(
+	content: string,
+	fromLine: number,
+	toLine: number,
+): string {
+	const doc = parseTodoDocument(content);
+
+	if (!doc.lines[fromLine] || !doc.lines[toLine]) {
+		return content;
+	}
+
+	return serializeTodoDocument(moveDocumentLine(doc, fromLine, toLine));
+}
+
+/**
+ * Update the task with the given id
+ *
+ * @param content - File content
+ * @param id - Task id as found on a parsed Todo
+ * @param updatedTodo - The updated Todo object
+ * @returns Updated file content (unchanged if no task has the id)
+ */
+export function updateTaskById(
+	content: string,
+	id: string,
+	updatedTodo: Todo,
+): string {
+	const doc = parseTodoDocument(content);
+	const line = findTaskLineById(doc, id);
+
+	if (line === -1) {
+		return content;
+	}
+
+	return serializeTodoDocument(setDocumentTask(doc, line, updatedTodo));
+}
+
+/**
+ * Delete the task with the given id
+ *
+ * @param content - File content
+ * @param id - Task id as found on a parsed Todo
+ * @returns Updated file content (unchanged if no task has the id)
+ */
+export function deleteTaskById(content: string, id: string): string {
+	const doc = parseTodoDocument(content);
+	const line = findTaskLineById(doc, id);
+
+	if (line === -1) {
+		return content;
+	}
+
+	return serializeTodoDocument(removeDocumentLine(doc, line));
+}
+
+/**
+ * Move the task with the given id to a physical line
+ *
+ * @param content - File content
+ * @param id - Task id as found on a parsed Todo
+ * @param toLine - Zero-based physical line index the task ends up at
+ * @returns Updated file content (unchanged if no task has the id or the line does not exist)
+ */
+export function moveTaskById(
+	content: string,
+	id: string,
+	toLine: number,
+): string {
+	const doc = parseTodoDocument(content);
+	const line = findTaskLineById(doc, id);
+
+	if (line === -1 || !doc.lines[toLine]) {
+		return content;
+	}
+
+	return serializeTodoDocument(moveDocumentLine(doc, line, toLine));
 }
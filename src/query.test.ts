@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import { TodoQueryError } from "./errors";
+import { parseTodoLine, parseTodoTxt } from "./parser";
+import { compileQuery, filterTodos, parseQuery } from "./query";
+
+const todos =
+	parseTodoTxt(`(A) 2024-01-01 Send invoice +work @office due:2024-01-10
+(C) Review slides +work @home due:2024-01-20 est:3
+(D) Plan trip +personal est:1
+x 2024-01-05 Pay invoice +work @office pri:B
+Call Mom @phone
+Read https://example.com owner:bob`);
+
+const descriptions = (query: string, today = "2024-01-05") =>
+	filterTodos(todos, query, { today }).map((todo) =>
+		todo.description.split(" ").slice(0, 2).join(" "),
+	);
+
+describe("query terms", () => {
+	it("プロジェクトとコンテキストで絞り込む", () => {
+		expect(descriptions("+work @office")).toEqual([
+			"Send invoice",
+			"Pay invoice",
+		]);
+		expect(descriptions("+WORK")).toHaveLength(3);
+	});
+
+	it("doneと否定", () => {
+		expect(descriptions("done")).toEqual(["Pay invoice"]);
+		expect(descriptions("+work -done")).toEqual([
+			"Send invoice",
+			"Review slides",
+		]);
+		expect(descriptions("+work not done")).toHaveLength(2);
+	});
+
+	it("優先度の範囲と比較", () => {
+		expect(descriptions("pri:A-C")).toEqual(["Send invoice", "Review slides"]);
+		expect(descriptions("pri:A")).toEqual(["Send invoice"]);
+		expect(descriptions("pri>=C")).toEqual(["Review slides", "Plan trip"]);
+	});
+
+	it("相対日付で比較する", () => {
+		expect(descriptions("due<today+7")).toEqual(["Send invoice"]);
+		expect(descriptions("due<=today+15")).toEqual([
+			"Send invoice",
+			"Review slides",
+		]);
+		expect(descriptions("due:2024-01-15..2024-01-31")).toEqual([
+			"Review slides",
+		]);
+		expect(descriptions("created:2024-01-01")).toEqual(["Send invoice"]);
+		expect(descriptions("completed:today")).toEqual(["Pay invoice"]);
+	});
+
+	it("曜日名とオフセットは日付の値との比較でだけ解決する", () => {
+		// 2024-01-05 is a Friday, so "fri" is 2024-01-12
+		expect(descriptions("due<fri")).toEqual(["Send invoice"]);
+		expect(descriptions("due>+1w")).toEqual(["Review slides"]);
+		expect(
+			filterTodos(parseTodoTxt("Task owner:fri"), "owner:fri", {
+				today: "2024-01-05",
+			}),
+		).toHaveLength(1);
+	});
+
+	it("タグの数値比較と存在確認", () => {
+		expect(descriptions("est>2")).toEqual(["Review slides"]);
+		expect(descriptions("est:*")).toEqual(["Review slides", "Plan trip"]);
+		expect(descriptions("owner:BOB")).toEqual(["Read https://example.com"]);
+		expect(descriptions("due!=2024-01-10")).toHaveLength(5);
+	});
+
+	it("タグのキーは大文字小文字を区別し、組み込みフィールドは区別しない", () => {
+		const tagged = [
+			parseTodoLine("Task Owner:bob"),
+			parseTodoLine("(A) Other"),
+		];
+
+		expect(filterTodos(tagged, "Owner:bob")).toEqual([tagged[0]]);
+		expect(filterTodos(tagged, "owner:bob")).toEqual([]);
+		expect(filterTodos(tagged, "PRI:A")).toEqual([tagged[1]]);
+	});
+
+	it("説明文の文字列と正規表現", () => {
+		expect(descriptions('"invoice"')).toEqual(["Send invoice", "Pay invoice"]);
+		expect(descriptions("INVOICE")).toHaveLength(2);
+		expect(descriptions('"call mom"')).toEqual(["Call Mom"]);
+		expect(descriptions("/^(send|pay)/i")).toEqual([
+			"Send invoice",
+			"Pay invoice",
+		]);
+	});
+
+	it("リクエスト例のクエリ", () => {
+		expect(
+			descriptions('+work @office pri:A-C due<today+7 -done "invoice"'),
+		).toEqual(["Send invoice"]);
+	});
+});
+
+describe("boolean operators", () => {
+	it("orとand、括弧", () => {
+		expect(descriptions("@home or @phone")).toEqual([
+			"Review slides",
+			"Call Mom",
+		]);
+		expect(descriptions("+work and (@home or done)")).toEqual([
+			"Review slides",
+			"Pay invoice",
+		]);
+		expect(descriptions("-(+work or +personal)")).toEqual([
+			"Call Mom",
+			"Read https://example.com",
+		]);
+	});
+
+	it("andはorより優先される", () => {
+		expect(descriptions("@phone or +work and done")).toEqual([
+			"Pay invoice",
+			"Call Mom",
+		]);
+	});
+
+	it("空のクエリは全てに一致する", () => {
+		expect(parseQuery("   ")).toBeUndefined();
+		expect(filterTodos(todos, "")).toHaveLength(todos.length);
+	});
+});
+
+describe("parse query", () => {
+	it("構文木と位置を返す", () => {
+		expect(parseQuery("+work -done")).toEqual({
+			type: "and",
+			children: [
+				{ type: "project", name: "work", start: 0, end: 5 },
+				{
+					type: "not",
+					child: { type: "done", start: 7, end: 11 },
+					start: 6,
+					end: 11,
+				},
+			],
+			start: 0,
+			end: 11,
+		});
+	});
+
+	it("比較と範囲", () => {
+		expect(parseQuery("pri:A-C")).toEqual({
+			type: "compare",
+			field: "pri",
+			operator: ":",
+			value: "A",
+			to: "C",
+			start: 0,
+			end: 7,
+		});
+	});
+});
+
+describe("query syntax errors", () => {
+	const errorOf = (query: string) => {
+		try {
+			compileQuery(query);
+		} catch (error) {
+			if (error instanceof TodoQueryError) {
+				return [error.message, error.position, error.length];
+			}
+			throw error;
+		}
+		return undefined;
+	};
+
+	it("位置付きのエラーを報告する", () => {
+		expect(errorOf('+work "invoice')).toEqual([
+			"Unterminated string at position 6",
+			6,
+			8,
+		]);
+		expect(errorOf("(+work or @home")).toEqual([
+			"Unclosed parenthesis at position 0",
+			0,
+			1,
+		]);
+		expect(errorOf("+work )")).toEqual(['Unexpected ")" at position 6', 6, 1]);
+		expect(errorOf("+work or")).toEqual([
+			'Missing operand after "or" at position 6',
+			6,
+			2,
+		]);
+		expect(errorOf("due<")).toEqual([
+			'Missing value after "<" at position 4',
+			4,
+			0,
+		]);
+		expect(errorOf("/(/")).toEqual([
+			"Invalid regular expression at position 0",
+			0,
+			3,
+		]);
+		expect(errorOf("due<2024-01-01..2024-02-01")).toEqual([
+			'Range requires ":" but got "<" at position 3',
+			3,
+			1,
+		]);
+		expect(errorOf("()")).toEqual(["Empty parentheses at position 0", 0, 2]);
+	});
+});
@@ -0,0 +1,495 @@
+import { currentDate, isValidDate, resolveRelativeDate } from "./date";
+import { TodoQueryError } from "./errors";
+import { getTagValues } from "./tags";
+import type { QueryNode, QueryOperator, QueryOptions, Todo } from "./types";
+
+interface QueryToken {
+	kind:
+		| "lparen"
+		| "rparen"
+		| "and"
+		| "or"
+		| "not"
+		| "word"
+		| "string"
+		| "regex";
+	/** Unescaped content for strings, pattern and flags for regexes */
+	value: string;
+	flags?: string;
+	start: number;
+	end: number;
+}
+
+const COMPARE_REGEX = /^([^\s:<>=!]+)(<=|>=|!=|<|>|=|:)(.*)$/;
+
+// Fields read from the task itself rather than from a tag
+const BUILT_IN_FIELDS = new Set(["pri", "created", "completed"]);
+
+/**
+ * Parse a query into a syntax tree
+ *
+ * Terms are separated by whitespace and combined with AND unless `or` is used;
+ * `not` or a leading `-` negates a term, and parentheses group terms.
+ *
+ * | Term | Matches |
+ * |------|---------|
+ * | `+work`, `@office` | Tasks with the project / context (case-insensitive) |
+ * | `done` | Completed tasks |
+ * | `pri:A`, `pri:A-C`, `pri<=B` | Priority letter, range or comparison |
+ * | `due<today+7`, `created:2024-01-01..2024-01-31` | Date comparison or range |
+ * | `est>2`, `owner:bob`, `due:*` | Any tag (numeric when both sides are numbers); `*` means present |
+ * | `invoice`, `"two words"` | Description contains the text (case-insensitive) |
+ * | `/^call/i` | Description matches the regular expression |
+ *
+ * `pri`, `created` and `completed` refer to the priority, creation date and
+ * completion date; any other field is a tag key. Dates may be written as
+ * `today`, `tomorrow`, `yesterday`, `today+N` / `today-N` with an optional
+ * `d`, `b`, `w`, `m` or `y` unit, `+3d`, or a weekday name such as `fri`.
+ *
+ * @param query - Query string
+ * @returns Parsed query, or undefined for an empty query
+ * @throws {TodoQueryError} If the query has invalid syntax
+ */
+export function parseQuery(query: string): QueryNode | undefined {
+	const tokens = tokenizeQuery(query);
+	let index = 0;
+
+	const peek = (): QueryToken | undefined => tokens[index];
+
+	const parseOr = (): QueryNode => {
+		const children = [parseAnd()];
+		while (peek()?.kind === "or") {
+			const operator = tokens[index++] as QueryToken;
+			if (!startsOperand(peek())) {
+				throw missingOperand(operator);
+			}
+			children.push(parseAnd());
+		}
+		return combine("or", children);
+	};
+
+	const parseAnd = (): QueryNode => {
+		const children = [parseUnary()];
+		for (;;) {
+			const next = peek();
+			if (next?.kind === "and") {
+				index++;
+				if (!startsOperand(peek())) {
+					throw missingOperand(next);
+				}
+			} else if (!startsOperand(next)) {
+				break;
+			}
+			children.push(parseUnary());
+		}
+		return combine("and", children);
+	};
+
+	const parseUnary = (): QueryNode => {
+		const token = peek();
+		if (token?.kind === "not") {
+			index++;
+			if (!startsOperand(peek())) {
+				throw missingOperand(token);
+			}
+			const child = parseUnary();
+			return { type: "not", child, start: token.start, end: child.end };
+		}
+		return parsePrimary();
+	};
+
+	const parsePrimary = (): QueryNode => {
+		const token = tokens[index++];
+		if (!token) {
+			throw new TodoQueryError("Unexpected end of query", query.length, 0);
+		}
+
+		switch (token.kind) {
+			case "lparen": {
+				if (peek()?.kind === "rparen") {
+					throw new TodoQueryError("Empty parentheses", token.start, 2);
+				}
+				const inner = parseOr();
+				const close = tokens[index++];
+				if (close?.kind !== "rparen") {
+					throw new TodoQueryError("Unclosed parenthesis", token.start);
+				}
+				return { ...inner, start: token.start, end: close.end };
+			}
+			case "string":
+				return {
+					type: "text",
+					value: token.value,
+					start: token.start,
+					end: token.end,
+				};
+			case "regex":
+				return parseRegexTerm(token);
+			case "word":
+				return parseWordTerm(token);
+			default:
+				throw new TodoQueryError(
+					`Unexpected "${query.slice(token.start, token.end)}"`,
+					token.start,
+					token.end - token.start,
+				);
+		}
+	};
+
+	if (tokens.length === 0) {
+		return undefined;
+	}
+
+	const node = parseOr();
+	const rest = peek();
+	if (rest) {
+		throw new TodoQueryError(
+			`Unexpected "${query.slice(rest.start, rest.end)}"`,
+			rest.start,
+			rest.end - rest.start,
+		);
+	}
+
+	return node;
+}
+
+/**
+ * Compile a query into a predicate over todos
+ *
+ * @param query - Query string (see {@link parseQuery} for the syntax)
+ * @param options - Query options
+ * @returns Predicate; an empty query matches every todo
+ * @throws {TodoQueryError} If the query has invalid syntax
+ * @throws {RangeError} If `today` is not a valid date or the time zone is unknown
+ *
+ * @example
+ * ```ts
+ * const matches = compileQuery('+work @office pri:A-C due<today+7 -done "invoice"');
+ * const todos = parseTodoTxt(content).filter(matches);
+ * ```
+ */
+export function compileQuery(
+	query: string,
+	options: QueryOptions = {},
+): (todo: Todo) => boolean {
+	const node = parseQuery(query);
+	if (!node) {
+		return () => true;
+	}
+
+	const today = currentDate(options.today, options.timeZone);
+	return (todo) => evaluate(node, todo, today);
+}
+
+/**
+ * Filter todos with a query
+ *
+ * @param todos - Todos to filter
+ * @param query - Query string (see {@link parseQuery} for the syntax)
+ * @param options - Query options
+ * @returns Matching todos in their original order
+ * @throws {TodoQueryError} If the query has invalid syntax
+ * @throws {RangeError} If `today` is not a valid date or the time zone is unknown
+ */
+export function filterTodos(
+	todos: Todo[],
+	query: string,
+	options: QueryOptions = {},
+): Todo[] {
+	return todos.filter(compileQuery(query, options));
+}
+
+function tokenizeQuery(query: string): QueryToken[] {
+	const tokens: QueryToken[] = [];
+	let i = 0;
+
+	while (i < query.length) {
+		const char = query.charAt(i);
+		const start = i;
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === "(" || char === ")") {
+			tokens.push({
+				kind: char === "(" ? "lparen" : "rparen",
+				value: char,
+				start,
+				end: ++i,
+			});
+		} else if (
+			char === "-" &&
+			i + 1 < query.length &&
+			/[^\s)]/.test(query.charAt(i + 1))
+		) {
+			tokens.push({ kind: "not", value: char, start, end: ++i });
+		} else if (char === '"') {
+			let value = "";
+			i++;
+			while (i < query.length && query.charAt(i) !== '"') {
+				if (query.charAt(i) === "\\" && i + 1 < query.length) {
+					i++;
+				}
+				value += query.charAt(i++);
+			}
+			if (i >= query.length) {
+				throw new TodoQueryError("Unterminated string", start, i - start);
+			}
+			tokens.push({ kind: "string", value, start, end: ++i });
+		} else if (char === "/") {
+			let value = "";
+			i++;
+			while (i < query.length && query.charAt(i) !== "/") {
+				if (query.charAt(i) === "\\" && i + 1 < query.length) {
+					value += query.charAt(i++);
+				}
+				value += query.charAt(i++);
+			}
+			if (i >= query.length) {
+				throw new TodoQueryError(
+					"Unterminated regular expression",
+					start,
+					i - start,
+				);
+			}
+			i++;
+			const flagsStart = i;
+			while (i < query.length && /[a-z]/i.test(query.charAt(i))) {
+				i++;
+			}
+			tokens.push({
+				kind: "regex",
+				value,
+				flags: query.slice(flagsStart, i),
+				start,
+				end: i,
+			});
+		} else {
+			while (i < query.length && /[^\s()"]/.test(query.charAt(i))) {
+				i++;
+			}
+			const word = query.slice(start, i);
+			const keyword = word.toLowerCase();
+			const kind =
+				keyword === "and" || keyword === "or" || keyword === "not"
+					? keyword
+					: "word";
+			tokens.push({ kind, value: word, start, end: i });
+		}
+	}
+
+	return tokens;
+}
+
+function parseRegexTerm(token: QueryToken): QueryNode {
+	try {
+		return {
+			type: "regex",
+			pattern: new RegExp(token.value, token.flags),
+			start: token.start,
+			end: token.end,
+		};
+	} catch {
+		throw new TodoQueryError(
+			"Invalid regular expression",
+			token.start,
+			token.end - token.start,
+		);
+	}
+}
+
+function parseWordTerm(token: QueryToken): QueryNode {
+	const { value: word, start, end } = token;
+
+	if (/^\+\S/.test(word)) {
+		return { type: "project", name: word.slice(1), start, end };
+	}
+	if (/^@\S/.test(word)) {
+		return { type: "context", name: word.slice(1), start, end };
+	}
+	if (word.toLowerCase() === "done") {
+		return { type: "done", start, end };
+	}
+
+	const match = word.match(COMPARE_REGEX);
+	if (!match) {
+		return { type: "text", value: word, start, end };
+	}
+
+	// Built-in fields ignore case; tag keys are matched as written
+	const name = match[1] ?? "";
+	const field = BUILT_IN_FIELDS.has(name.toLowerCase())
+		? name.toLowerCase()
+		: name;
+	const operator = match[2] as QueryOperator;
+	const value = match[3] ?? "";
+
+	if (value.length === 0) {
+		if (operator === ":") {
+			return { type: "text", value: word, start, end };
+		}
+		throw new TodoQueryError(`Missing value after "${operator}"`, end, 0);
+	}
+
+	const range =
+		field === "pri"
+			? value.match(/^([A-Za-z])(?:-|\.\.)([A-Za-z])$/)
+			: value.match(/^(.+)\.\.(.+)$/);
+	if (range) {
+		if (operator !== ":" && operator !== "=") {
+			throw new TodoQueryError(
+				`Range requires ":" but got "${operator}"`,
+				start + (match[1]?.length ?? 0),
+				operator.length,
+			);
+		}
+		return {
+			type: "compare",
+			field,
+			operator,
+			value: range[1] ?? "",
+			to: range[2] ?? "",
+			start,
+			end,
+		};
+	}
+
+	return { type: "compare", field, operator, value, start, end };
+}
+
+function startsOperand(token: QueryToken | undefined): boolean {
+	return (
+		token !== undefined &&
+		token.kind !== "rparen" &&
+		token.kind !== "and" &&
+		token.kind !== "or"
+	);
+}
+
+function missingOperand(token: QueryToken): TodoQueryError {
+	return new TodoQueryError(
+		`Missing operand after "${token.value}"`,
+		token.start,
+		token.end - token.start,
+	);
+}
+
+function combine(type: "and" | "or", children: QueryNode[]): QueryNode {
+	const [first] = children;
+	if (children.length === 1 && first) {
+		return first;
+	}
+
+	return {
+		type,
+		children,
+		start: first?.start ?? 0,
+		end: children[children.length - 1]?.end ?? 0,
+	};
+}
+
+function evaluate(node: QueryNode, todo: Todo, today: string): boolean {
+	switch (node.type) {
+		case "and":
+			return node.children.every((child) => evaluate(child, todo, today));
+		case "or":
+			return node.children.some((child) => evaluate(child, todo, today));
+		case "not":
+			return !evaluate(node.child, todo, today);
+		case "done":
+			return todo.completed;
+		case "project":
+			return includesIgnoreCase(todo.projects, node.name);
+		case "context":
+			return includesIgnoreCase(todo.contexts, node.name);
+		case "text":
+			return todo.description.toLowerCase().includes(node.value.toLowerCase());
+		case "regex":
+			node.pattern.lastIndex = 0;
+			return node.pattern.test(todo.description);
+		case "compare":
+			return evaluateCompare(node, todo, today);
+	}
+}
+
+function evaluateCompare(
+	node: Extract<QueryNode, { type: "compare" }>,
+	todo: Todo,
+	today: string,
+): boolean {
+	const actuals = fieldValues(todo, node.field);
+
+	if (node.value === "*" && node.to === undefined) {
+		const present = actuals.length > 0;
+		return node.operator === "!=" ? !present : present;
+	}
+	if (actuals.length === 0) {
+		return node.operator === "!=";
+	}
+
+	// Relative dates only apply when comparing against dates
+	const resolve = (actual: string, value: string): string =>
+		isValidDate(actual) ? (resolveRelativeDate(value, today) ?? value) : value;
+
+	if (node.to !== undefined) {
+		const to = node.to;
+		return actuals.some(
+			(actual) =>
+				compareValues(actual, resolve(actual, node.value)) >= 0 &&
+				compareValues(actual, resolve(actual, to)) <= 0,
+		);
+	}
+
+	const matches = (actual: string): boolean => {
+		const order = compareValues(actual, resolve(actual, node.value));
+		switch (node.operator) {
+			case ":":
+			case "=":
+				return order === 0;
+			case "!=":
+				return order !== 0;
+			case "<":
+				return order < 0;
+			case "<=":
+				return order <= 0;
+			case ">":
+				return order > 0;
+			case ">=":
+				return order >= 0;
+		}
+	};
+
+	return node.operator === "!="
+		? actuals.every(matches)
+		: actuals.some(matches);
+}
+
+function fieldValues(todo: Todo, field: string): string[] {
+	switch (field) {
+		case "pri":
+			return todo.priority ? [todo.priority] : [];
+		case "created":
+			return todo.creationDate ? [todo.creationDate] : [];
+		case "completed":
+			return todo.completionDate ? [todo.completionDate] : [];
+		default:
+			return getTagValues(todo, field);
+	}
+}
+
+function compareValues(actual: string, expected: string): number {
+	if (isValidDate(actual) && isValidDate(expected)) {
+		return actual < expected ? -1 : actual > expected ? 1 : 0;
+	}
+
+	const numeric = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/;
+	if (numeric.test(actual) && numeric.test(expected)) {
+		return Math.sign(Number(actual) - Number(expected));
+	}
+
+	return actual.localeCompare(expected, undefined, { sensitivity: "base" });
+}
+
+function includesIgnoreCase(values: string[], name: string): boolean {
+	const lower = name.toLowerCase();
+	return values.some((value) => value.toLowerCase() === lower);
+}
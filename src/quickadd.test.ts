@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { addTask, defaultQuickAddRules } from "./quickadd";
+import type { QuickAddRule } from "./types";
+
+// 2024-01-03 is a Wednesday
+const today = "2024-01-03";
+
+describe("addTask", () => {
+	it("優先度・期限・繰り返し・作成日を設定する", () => {
+		const todo = addTask("call bob tomorrow !A +sales @phone every week", {
+			today,
+		});
+
+		expect(todo.raw).toBe(
+			"(A) 2024-01-03 call bob +sales @phone rec:1w due:2024-01-04",
+		);
+		expect(todo.priority).toBe("A");
+		expect(todo.creationDate).toBe(today);
+		expect(todo.projects).toEqual(["sales"]);
+		expect(todo.contexts).toEqual(["phone"]);
+		expect(todo.tags).toEqual({ rec: "1w", due: "2024-01-04" });
+	});
+
+	it("期限の表現を解決する", () => {
+		const due = (input: string) => addTask(input, { today }).tags.due;
+
+		expect(due("pay rent friday")).toBe("2024-01-05");
+		expect(due("pay rent on fri")).toBe("2024-01-05");
+		expect(due("pay rent due 2024-02-01")).toBe("2024-02-01");
+		expect(due("pay rent by +2w")).toBe("2024-01-17");
+		expect(due("pay rent in 3 days")).toBe("2024-01-06");
+	});
+
+	it("繰り返しの表現を解決する", () => {
+		const tags = (input: string) => addTask(input, { today }).tags;
+
+		expect(tags("standup every weekday")).toEqual({ rec: "1b" });
+		expect(tags("water plants every 2 days")).toEqual({ rec: "2d" });
+		expect(tags("backup monthly")).toEqual({ rec: "1m" });
+		expect(tags("team lunch every friday")).toEqual({
+			rec: "1w",
+			due: "2024-01-05",
+		});
+	});
+
+	it("省略形の曜日だけでは期限にしない", () => {
+		const todo = addTask("buy sun cream", { today });
+
+		expect(todo.description).toBe("buy sun cream");
+		expect(todo.tags).toEqual({});
+	});
+
+	it("最初に見つかった値を優先し、入力済みのタグを上書きしない", () => {
+		expect(addTask("ship !B today !A", { today }).raw).toBe(
+			"(B) 2024-01-03 ship !A due:2024-01-03",
+		);
+		expect(addTask("ship due:fri tomorrow", { today }).raw).toBe(
+			"2024-01-03 ship due:2024-01-05 tomorrow",
+		);
+	});
+
+	it("作成日を省略できる", () => {
+		expect(addTask("Read", { today, creationDate: false }).raw).toBe("Read");
+	});
+
+	it("注入した時刻とタイムゾーンで今日を決める", () => {
+		const todo = addTask("call tomorrow", {
+			today: new Date("2024-01-03T20:00:00Z"),
+			timeZone: "Asia/Tokyo",
+		});
+
+		expect(todo.raw).toBe("2024-01-04 call due:2024-01-05");
+	});
+
+	it("独自のルールを追加できる", () => {
+		const estimate: QuickAddRule = {
+			name: "estimate",
+			pattern: /~(\d+)h/,
+			apply: ([, hours]) => ({ tags: { est: `${hours}h` } }),
+		};
+		const eod: QuickAddRule = {
+			name: "eod",
+			pattern: /eod/i,
+			apply: (_, { today }) => ({ tags: { due: today } }),
+		};
+
+		expect(
+			addTask("write report ~2h EOD", {
+				today,
+				rules: [...defaultQuickAddRules, estimate, eod],
+			}).raw,
+		).toBe("2024-01-03 write report est:2h due:2024-01-03");
+	});
+
+	it("説明が空、または不正な優先度はRangeError", () => {
+		expect(() => addTask("tomorrow", { today })).not.toThrow();
+		expect(() => addTask("  ", { today })).toThrow(RangeError);
+		expect(() =>
+			addTask("task", {
+				today,
+				rules: [
+					{ name: "bad", pattern: /task/, apply: () => ({ priority: "a" }) },
+				],
+			}),
+		).toThrow(RangeError);
+	});
+});
@@ -0,0 +1,208 @@
+import { currentDate, resolveRelativeDate } from "./date";
+import { resolveDateTags } from "./due";
+import { parseTodoLine, serializeTodo } from "./parser";
+import type {
+	AddTaskOptions,
+	QuickAddContext,
+	QuickAddRule,
+	Todo,
+} from "./types";
+
+// Abbreviated weekdays ("sat", "sun") are common words, so on their own only
+// full names count and abbreviations need "due", "on" or "by" before them
+const DATE_WORD =
+	"today|tomorrow|monday|tuesday|wednesday|thursday|friday|saturday|sunday|\\d{4}-\\d{2}-\\d{2}|[+]\\d+[dbwmy]";
+const SHORT_DATE_WORD = `${DATE_WORD}|mon|tue|wed|thu|fri|sat|sun`;
+
+const UNITS: Record<string, string> = {
+	day: "d",
+	weekday: "b",
+	week: "w",
+	month: "m",
+	year: "y",
+};
+
+const EVERY: Record<string, string> = {
+	daily: "1d",
+	weekly: "1w",
+	monthly: "1m",
+	yearly: "1y",
+};
+
+/**
+ * Rules used by {@link addTask} unless others are given
+ *
+ * | Rule | Input | Result |
+ * |------|-------|--------|
+ * | `priority` | `!A` | priority A |
+ * | `recurrence` | `every week`, `every 2 days`, `every weekday`, `daily` | `rec:1w`, `rec:2d`, `rec:1b`, `rec:1d` |
+ * | `recurrenceDay` | `every friday` | `rec:1w` and `due:` the next Friday |
+ * | `due` | `tomorrow`, `friday`, `on fri`, `due 2024-01-15`, `by +3d` | `due:` as a date |
+ * | `dueIn` | `in 3 days`, `in 2 weeks` | `due:` as a date |
+ *
+ * Extend the grammar by passing `[...defaultQuickAddRules, myRule]`.
+ */
+export const defaultQuickAddRules: readonly QuickAddRule[] = [
+	{
+		name: "priority",
+		pattern: /!([a-z])/i,
+		apply: (match) => ({ priority: match[1]?.toUpperCase() }),
+	},
+	{
+		name: "recurrence",
+		pattern:
+			/every\s+(?:(\d+)\s+)?(day|weekday|week|month|year)s?|(daily|weekly|monthly|yearly)/i,
+		apply: ([, amount = "1", unit, every]) => {
+			const rec = every
+				? EVERY[every.toLowerCase()]
+				: `${amount}${UNITS[unit?.toLowerCase() ?? ""]}`;
+			return rec ? { tags: { rec } } : undefined;
+		},
+	},
+	{
+		name: "recurrenceDay",
+		pattern:
+			/every\s+(mon|tue|wed|thu|fri|sat|sun)(?:day|sday|nesday|rsday|urday)?/i,
+		apply: ([, day = ""], { today }) => {
+			const due = resolveRelativeDate(day, today);
+			return due ? { tags: { rec: "1w", due } } : undefined;
+		},
+	},
+	{
+		name: "due",
+		pattern: new RegExp(
+			`(?:due|on|by)\\s+(${SHORT_DATE_WORD})|(${DATE_WORD})`,
+			"i",
+		),
+		apply: ([, prefixed, value = prefixed ?? ""], { today }) => {
+			const due = resolveRelativeDate(value, today);
+			return due ? { tags: { due } } : undefined;
+		},
+	},
+	{
+		name: "dueIn",
+		pattern: /in\s+(\d+)\s+(day|week|month|year)s?/i,
+		apply: ([, amount, unit = ""], { today }) => {
+			const due = resolveRelativeDate(
+				`+${amount}${UNITS[unit.toLowerCase()]}`,
+				today,
+			);
+			return due ? { tags: { due } } : undefined;
+		},
+	},
+];
+
+/**
+ * Create a todo from natural-language input
+ *
+ * Each rule's pattern is searched at word boundaries in turn; what a rule
+ * recognizes is removed from the text and turned into a priority or tags,
+ * and the first value found for a field wins. `+project`, `@context` and
+ * `key:value` words are kept as written, with relative `due:` and `t:` values
+ * resolved to dates.
+ *
+ * @param input - Text typed by the user
+ * @param options - Grammar, clock and creation date options
+ * @returns New Todo
+ * @throws {RangeError} If nothing is left for the description, a rule returns
+ * an invalid priority, or `today` is not a valid date or the time zone is unknown
+ *
+ * @example
+ * ```ts
+ * addTask("call bob tomorrow !A +sales @phone every week", { today: "2024-01-03" });
+ * // raw: "(A) 2024-01-03 call bob +sales @phone rec:1w due:2024-01-04"
+ * ```
+ */
+export function addTask(input: string, options: AddTaskOptions = {}): Todo {
+	const { rules = defaultQuickAddRules, creationDate = true } = options;
+	const today = currentDate(options.today, options.timeZone);
+	// Tags typed as key:value stay in the text and take precedence
+	const typed = parseTodoLine(input).tags;
+	const context: QuickAddContext = { today, tags: { ...typed } };
+	let text = input;
+
+	for (const rule of rules) {
+		text = applyRule(text, rule, context);
+	}
+
+	const words = text.split(/\s+/).filter((word) => word.length > 0);
+	for (const [key, value] of Object.entries(context.tags)) {
+		if (!(key in typed)) {
+			words.push(`${key}:${value}`);
+		}
+	}
+	if (words.length === 0) {
+		throw new RangeError("Task description is empty");
+	}
+
+	const line = serializeTodo({
+		completed: false,
+		priority: context.priority,
+		creationDate: creationDate ? today : undefined,
+		description: words.join(" "),
+		projects: [],
+		contexts: [],
+		tags: {},
+		raw: "",
+	});
+
+	return resolveDateTags(parseTodoLine(line), { today });
+}
+
+function applyRule(
+	text: string,
+	rule: QuickAddRule,
+	context: QuickAddContext,
+): string {
+	const flags = rule.pattern.flags.includes("g")
+		? rule.pattern.flags
+		: `${rule.pattern.flags}g`;
+	const pattern = new RegExp(
+		`(?<=^|\\s)(?:${rule.pattern.source})(?=\\s|$)`,
+		flags,
+	);
+
+	let output = "";
+	let last = 0;
+
+	for (const match of text.matchAll(pattern)) {
+		output += text.slice(last, match.index);
+		last = match.index + match[0].length;
+		output += applyMatch(match, rule, context) ?? match[0];
+	}
+
+	return output + text.slice(last);
+}
+
+function applyMatch(
+	match: RegExpExecArray,
+	rule: QuickAddRule,
+	context: QuickAddContext,
+): string | undefined {
+	const result = rule.apply(match, context);
+	if (!result) {
+		return undefined;
+	}
+
+	const tags = Object.entries(result.tags ?? {});
+	const taken =
+		(result.priority !== undefined && context.priority !== undefined) ||
+		tags.some(([key]) => key in context.tags);
+	if (taken) {
+		return undefined;
+	}
+
+	if (result.priority !== undefined) {
+		if (!/^[A-Z]$/.test(result.priority)) {
+			throw new RangeError(
+				`Rule "${rule.name}" returned invalid priority "${result.priority}"`,
+			);
+		}
+		context.priority = result.priority;
+	}
+	for (const [key, value] of tags) {
+		context.tags[key] = value;
+	}
+
+	return result.text ?? "";
+}
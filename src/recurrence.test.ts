@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { parseTodoLine } from "./parser";
+import {
+	addRecurrence,
+	appendNextOccurrence,
+	createNextOccurrence,
+	parseRecurrence,
+} from "./recurrence";
+import type { Recurrence } from "./types";
+
+describe("parse recurrence", () => {
+	it("間隔と単位をパースする", () => {
+		expect(parseRecurrence("1w")).toEqual({
+			strict: false,
+			amount: 1,
+			unit: "w",
+		});
+		expect(parseRecurrence("+3m")).toEqual({
+			strict: true,
+			amount: 3,
+			unit: "m",
+		});
+		expect(parseRecurrence("d")).toEqual({
+			strict: false,
+			amount: 1,
+			unit: "d",
+		});
+	});
+
+	it("不正な値はundefined", () => {
+		expect(parseRecurrence("0d")).toBeUndefined();
+		expect(parseRecurrence("1x")).toBeUndefined();
+		expect(parseRecurrence("weekly")).toBeUndefined();
+	});
+});
+
+describe("add recurrence", () => {
+	it("単位ごとに日付を進める", () => {
+		const rec = (value: string): Recurrence => {
+			const recurrence = parseRecurrence(value);
+			if (!recurrence) {
+				throw new Error(`Invalid recurrence ${value}`);
+			}
+			return recurrence;
+		};
+
+		expect(addRecurrence("2024-01-30", rec("3d"))).toBe("2024-02-02");
+		expect(addRecurrence("2024-01-01", rec("2w"))).toBe("2024-01-15");
+		expect(addRecurrence("2024-01-31", rec("1m"))).toBe("2024-02-29");
+		expect(addRecurrence("2024-02-29", rec("1y"))).toBe("2025-02-28");
+		// 2024-01-05 is a Friday
+		expect(addRecurrence("2024-01-05", rec("1b"))).toBe("2024-01-08");
+		expect(addRecurrence("2024-01-05", rec("6b"))).toBe("2024-01-15");
+	});
+});
+
+describe("create next occurrence", () => {
+	it("通常の繰り返しは完了日を基準にする", () => {
+		const next = createNextOccurrence(
+			parseTodoLine("x 2024-01-10 Water plants due:2024-01-08 rec:1w"),
+		);
+
+		expect(next?.raw).toBe("Water plants due:2024-01-17 rec:1w");
+		expect(next?.completed).toBe(false);
+	});
+
+	it("厳密な繰り返しは元の期日を基準にする", () => {
+		const next = createNextOccurrence(
+			parseTodoLine("x 2024-01-10 Pay rent due:2024-01-01 rec:+1m"),
+		);
+
+		expect(next?.tags.due).toBe("2024-02-01");
+	});
+
+	it("閾値日は期日との間隔を保つ", () => {
+		const next = createNextOccurrence(
+			parseTodoLine("x 2024-01-10 Report t:2024-01-05 due:2024-01-08 rec:+1w"),
+		);
+
+		expect(next?.tags).toMatchObject({ t: "2024-01-12", due: "2024-01-15" });
+	});
+
+	it("期日がない場合は閾値日を進める", () => {
+		const normal = createNextOccurrence(
+			parseTodoLine("x 2024-01-10 Task t:2024-01-01 rec:2d"),
+		);
+		const strict = createNextOccurrence(
+			parseTodoLine("x 2024-01-10 Task t:2024-01-01 rec:+2d"),
+		);
+
+		expect(normal?.tags.t).toBe("2024-01-12");
+		expect(strict?.tags.t).toBe("2024-01-03");
+		expect(normal?.tags.due).toBeUndefined();
+	});
+
+	it("日付タグがない場合は完了日から期日を設定する", () => {
+		const next = createNextOccurrence(
+			parseTodoLine("x 2024-01-10 Task rec:1d"),
+		);
+
+		expect(next?.raw).toBe("Task rec:1d due:2024-01-11");
+	});
+
+	it("優先度を戻し作成日を完了日にする", () => {
+		const next = createNextOccurrence(
+			parseTodoLine(
+				"x 2024-01-10 2024-01-01 Review +Team due:2024-01-10 rec:1w pri:B",
+			),
+		);
+
+		expect(next?.raw).toBe("(B) 2024-01-10 Review +Team due:2024-01-17 rec:1w");
+		expect(next?.line).toBeUndefined();
+	});
+
+	it("完了日がない場合はoptions.dateを使う", () => {
+		const next = createNextOccurrence(
+			parseTodoLine("x Task due:2024-01-01 rec:1d"),
+			{
+				date: "2024-03-01",
+			},
+		);
+
+		expect(next?.tags.due).toBe("2024-03-02");
+	});
+
+	it("未完了または繰り返しなしのタスクはundefined", () => {
+		expect(
+			createNextOccurrence(parseTodoLine("Task due:2024-01-01 rec:1d")),
+		).toBeUndefined();
+		expect(
+			createNextOccurrence(parseTodoLine("x 2024-01-10 Task")),
+		).toBeUndefined();
+		expect(
+			createNextOccurrence(parseTodoLine("x 2024-01-10 Task rec:often")),
+		).toBeUndefined();
+	});
+});
+
+describe("append next occurrence", () => {
+	it("次のタスクをファイル末尾に追加する", () => {
+		const content = "x 2024-01-10 Task due:2024-01-10 rec:1d\n";
+
+		const result = appendNextOccurrence(content, parseTodoLine(content));
+
+		expect(result).toBe(
+			"x 2024-01-10 Task due:2024-01-10 rec:1d\nTask due:2024-01-11 rec:1d\n",
+		);
+	});
+
+	it("繰り返さないタスクでは元のコンテンツを返す", () => {
+		const content = "x 2024-01-10 Task";
+		expect(appendNextOccurrence(content, parseTodoLine(content))).toBe(content);
+	});
+});
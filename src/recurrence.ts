@@ -0,0 +1,155 @@
+import {
+	addBusinessDays,
+	addDays,
+	addMonths,
+	daysBetween,
+	formatDate,
+	isValidDate,
+} from "./date";
+import { setTag, uncompleteTodo } from "./mutations";
+import { appendTaskToFile, parseTodoLine, serializeTodo } from "./parser";
+import type {
+	CompletionOptions,
+	Recurrence,
+	RecurrenceUnit,
+	Todo,
+} from "./types";
+
+/**
+ * Parse a `rec:` tag value
+ *
+ * @param value - Tag value such as "1w", "+3m" or "b" (an omitted amount means 1)
+ * @returns Parsed recurrence, or undefined if the value is not a recurrence
+ *
+ * @example
+ * ```ts
+ * parseRecurrence("+2w"); // { strict: true, amount: 2, unit: "w" }
+ * ```
+ */
+export function parseRecurrence(value: string): Recurrence | undefined {
+	const match = value.match(/^(\+)?(\d*)([dbwmy])$/);
+	if (!match) {
+		return undefined;
+	}
+
+	const amount = match[2] ? Number(match[2]) : 1;
+	if (amount < 1) {
+		return undefined;
+	}
+
+	return {
+		strict: match[1] === "+",
+		amount,
+		unit: match[3] as RecurrenceUnit,
+	};
+}
+
+/**
+ * Add one recurrence interval to a YYYY-MM-DD date
+ *
+ * @param date - Date string
+ * @param recurrence - Recurrence interval
+ * @returns Date string
+ */
+export function addRecurrence(date: string, recurrence: Recurrence): string {
+	const { amount, unit } = recurrence;
+
+	switch (unit) {
+		case "d":
+			return addDays(date, amount);
+		case "b":
+			return addBusinessDays(date, amount);
+		case "w":
+			return addDays(date, amount * 7);
+		case "m":
+			return addMonths(date, amount);
+		case "y":
+			return addMonths(date, amount * 12);
+	}
+}
+
+/**
+ * Create the next occurrence of a completed recurring task
+ *
+ * With normal recurrence (`rec:1w`) the new `due:` is one interval after the
+ * completion date; with strict recurrence (`rec:+1w`) it is one interval after
+ * the original `due:`. The threshold `t:` keeps its distance to `due:`, or is
+ * shifted the same way when the task has no due date; a task with neither
+ * gets a due date one interval after completion. The new task is open,
+ * gets its priority back from the `pri:` tag and, if the original had a
+ * creation date, is created on the completion date.
+ *
+ * @param todo - Completed task with a `rec:` tag
+ * @param options - Completion options; `date` is used when the task has no completion date
+ * @returns New task, or undefined if the task is not completed or has no valid `rec:` tag
+ *
+ * @example
+ * ```ts
+ * createNextOccurrence(parseTodoLine("x 2024-01-10 Water plants due:2024-01-08 rec:1w"));
+ * // raw: "Water plants due:2024-01-17 rec:1w"
+ * ```
+ */
+export function createNextOccurrence(
+	todo: Todo,
+	options: CompletionOptions = {},
+): Todo | undefined {
+	const recurrence = parseRecurrence(todo.tags.rec ?? "");
+	if (!todo.completed || !recurrence) {
+		return undefined;
+	}
+
+	const completionDate =
+		todo.completionDate ?? options.date ?? formatDate(new Date());
+	const due = validDate(todo.tags.due);
+	const threshold = validDate(todo.tags.t);
+
+	let next = uncompleteTodo(todo, options);
+
+	if (due) {
+		const nextDue = addRecurrence(
+			recurrence.strict ? due : completionDate,
+			recurrence,
+		);
+		next = setTag(next, "due", nextDue);
+		if (threshold) {
+			next = setTag(next, "t", addDays(threshold, daysBetween(due, nextDue)));
+		}
+	} else if (threshold) {
+		next = setTag(
+			next,
+			"t",
+			addRecurrence(recurrence.strict ? threshold : completionDate, recurrence),
+		);
+	} else {
+		next = setTag(next, "due", addRecurrence(completionDate, recurrence));
+	}
+
+	return parseTodoLine(
+		serializeTodo({
+			...next,
+			creationDate: next.creationDate ? completionDate : undefined,
+		}),
+	);
+}
+
+/**
+ * Append the next occurrence of a completed recurring task to the file content
+ *
+ * @param content - Existing file content
+ * @param todo - Completed task with a `rec:` tag
+ * @param options - Completion options
+ * @returns Updated file content (unchanged if the task does not recur)
+ */
+export function appendNextOccurrence(
+	content: string,
+	todo: Todo,
+	options: CompletionOptions = {},
+): string {
+	const next = createNextOccurrence(todo, options);
+
+	return next ? appendTaskToFile(content, next) : content;
+}
+
+function validDate(value: string | undefined): string | undefined {
+	return value !== undefined && isValidDate(value) ? value : undefined;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { parseTodoTxt } from "./parser";
+import { groupTodos, summarizeTodos } from "./report";
+import type { TodoGroup } from "./types";
+
+const today = "2024-01-31";
+
+const todos = parseTodoTxt(
+	[
+		"2024-01-01 API design +work.backend.api @office",
+		"x 2024-01-10 2024-01-02 Fix login +work.backend +home",
+		"2024-01-21 Write copy +work.marketing @office @phone",
+		"x 2024-01-16 Clean garage +home",
+		"Read a book",
+		"Pay rent due:2024-02-01 owner:bob owner:alice",
+	].join("\n"),
+);
+
+function keys(groups: TodoGroup[]): Array<string | null> {
+	return groups.map((group) => group.key);
+}
+
+describe("summarizeTodos", () => {
+	it("件数・完了率・最古の未完了タスクの経過日数を集計する", () => {
+		expect(summarizeTodos(todos, { today })).toEqual({
+			total: 6,
+			open: 4,
+			completed: 2,
+			completionRatio: 2 / 6,
+			oldestOpenAge: 30,
+		});
+	});
+
+	it("空の配列では完了率0で経過日数なし", () => {
+		expect(summarizeTodos([], { today })).toEqual({
+			total: 0,
+			open: 0,
+			completed: 0,
+			completionRatio: 0,
+		});
+	});
+});
+
+describe("groupTodos", () => {
+	it("複数プロジェクトのタスクは各グループに入り、なしはnullグループに入る", () => {
+		const groups = groupTodos(todos, { by: "project", today });
+
+		expect(keys(groups)).toEqual([
+			"home",
+			"work.backend",
+			"work.backend.api",
+			"work.marketing",
+			null,
+		]);
+		expect(groups[0]?.stats).toMatchObject({ total: 2, completed: 2 });
+		expect(groups[4]?.todos.map((todo) => todo.description)).toEqual([
+			"Read a book",
+			"Pay rent due:2024-02-01 owner:bob owner:alice",
+		]);
+	});
+
+	it("区切り文字でネストしたプロジェクトを親にまとめる", () => {
+		const [, work] = groupTodos(todos, {
+			by: "project",
+			separator: ".",
+			today,
+		});
+
+		expect(work?.key).toBe("work");
+		expect(work?.stats).toMatchObject({
+			total: 3,
+			completed: 1,
+			oldestOpenAge: 30,
+		});
+		expect(keys(work?.children ?? [])).toEqual([
+			"work.backend",
+			"work.marketing",
+		]);
+
+		const backend = work?.children[0];
+		expect(backend?.name).toBe("backend");
+		expect(backend?.stats.total).toBe(2);
+		expect(keys(backend?.children ?? [])).toEqual(["work.backend.api"]);
+	});
+
+	it("同じ親に複数の子プロジェクトがあっても親では一度だけ数える", () => {
+		const [work] = groupTodos(parseTodoTxt("Task +work.a +work.b"), {
+			by: "project",
+			separator: ".",
+			today,
+		});
+
+		expect(work?.stats.total).toBe(1);
+		expect(work?.children).toHaveLength(2);
+	});
+
+	it("コンテキストでグループ化する", () => {
+		const groups = groupTodos(todos, { by: "context", today });
+
+		expect(keys(groups)).toEqual(["office", "phone", null]);
+		expect(groups[0]?.stats.total).toBe(2);
+	});
+
+	it("タグの値ごとにグループ化する", () => {
+		const groups = groupTodos(todos, { by: "tag", tag: "owner", today });
+
+		expect(keys(groups)).toEqual(["alice", "bob", null]);
+		expect(groups[2]?.stats.total).toBe(5);
+	});
+
+	it("完了週でグループ化する", () => {
+		const groups = groupTodos(todos, { by: "completionWeek", today });
+
+		expect(keys(groups)).toEqual(["2024-W02", "2024-W03", null]);
+	});
+
+	it("タグキーなしでタグのグループ化はRangeError", () => {
+		expect(() => groupTodos(todos, { by: "tag" })).toThrow(RangeError);
+	});
+});
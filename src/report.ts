@@ -0,0 +1,162 @@
+import { daysBetween, formatDate, isoWeek, isValidDate } from "./date";
+import { splitHierarchy } from "./hierarchy";
+import { getTagValues } from "./tags";
+import type { GroupOptions, Todo, TodoGroup, TodoStats } from "./types";
+
+interface GroupNode {
+	key: string | null;
+	name: string | null;
+	todos: Set<Todo>;
+	children: Map<string, GroupNode>;
+}
+
+/**
+ * Compute counts, completion ratio and oldest open age of todos
+ *
+ * @param todos - Todos to summarize
+ * @param options - `today` as the reference date for ages
+ * @returns Statistics
+ */
+export function summarizeTodos(
+	todos: Todo[],
+	options: Pick<GroupOptions, "today"> = {},
+): TodoStats {
+	const { today = formatDate(new Date()) } = options;
+	const completed = todos.filter((todo) => todo.completed).length;
+	const stats: TodoStats = {
+		total: todos.length,
+		open: todos.length - completed,
+		completed,
+		completionRatio: todos.length > 0 ? completed / todos.length : 0,
+	};
+
+	for (const todo of todos) {
+		if (
+			todo.completed ||
+			todo.creationDate === undefined ||
+			!isValidDate(todo.creationDate)
+		) {
+			continue;
+		}
+
+		const age = daysBetween(todo.creationDate, today);
+		if (stats.oldestOpenAge === undefined || age > stats.oldestOpenAge) {
+			stats.oldestOpenAge = age;
+		}
+	}
+
+	return stats;
+}
+
+/**
+ * Group todos into a tree of groups with statistics
+ *
+ * A todo with several projects (contexts, tag values) appears in each of
+ * their groups; todos without any end up in a final group whose key is null.
+ * With a `separator`, nested names build subgroups and a parent group counts
+ * each todo of its subtree once.
+ *
+ * @param todos - Todos to group
+ * @param options - Grouping options
+ * @returns Top-level groups sorted by key, with the null group last
+ * @throws {RangeError} If grouping by tag without a tag key
+ *
+ * @example
+ * ```ts
+ * groupTodos(todos, { by: "project", separator: "." });
+ * // [{ key: "work", stats: {...}, children: [{ key: "work.backend", ... }] }, ...]
+ * ```
+ */
+export function groupTodos(todos: Todo[], options: GroupOptions): TodoGroup[] {
+	const { today = formatDate(new Date()) } = options;
+	if (options.by === "tag" && !options.tag) {
+		throw new RangeError('Grouping by "tag" requires a tag key');
+	}
+
+	const root = createNode(null, null);
+	const separator =
+		options.by === "project" || options.by === "context"
+			? options.separator
+			: undefined;
+
+	for (const todo of todos) {
+		const keys = groupKeys(todo, options);
+		if (keys.length === 0) {
+			childNode(root, null, null).todos.add(todo);
+			continue;
+		}
+
+		for (const key of keys) {
+			let node = root;
+			let path = "";
+			for (const segment of separator
+				? splitHierarchy(key, separator)
+				: [key]) {
+				path = path.length > 0 ? `${path}${separator}${segment}` : segment;
+				node = childNode(node, path, segment);
+				node.todos.add(todo);
+			}
+		}
+	}
+
+	return toGroups(root, today);
+}
+
+function groupKeys(todo: Todo, options: GroupOptions): string[] {
+	switch (options.by) {
+		case "project":
+			return [...new Set(todo.projects)];
+		case "context":
+			return [...new Set(todo.contexts)];
+		case "tag":
+			return [...new Set(getTagValues(todo, options.tag ?? ""))];
+		case "completionWeek":
+			return todo.completionDate && isValidDate(todo.completionDate)
+				? [isoWeek(todo.completionDate)]
+				: [];
+	}
+}
+
+function createNode(key: string | null, name: string | null): GroupNode {
+	return { key, name, todos: new Set(), children: new Map() };
+}
+
+function childNode(
+	parent: GroupNode,
+	key: string | null,
+	name: string | null,
+): GroupNode {
+	// The null group is stored under a key no todo name can have
+	const mapKey = key ?? "\u0000";
+	let node = parent.children.get(mapKey);
+	if (!node) {
+		node = createNode(key, name);
+		parent.children.set(mapKey, node);
+	}
+
+	return node;
+}
+
+function toGroups(node: GroupNode, today: string): TodoGroup[] {
+	return [...node.children.values()].sort(compareNodes).map((child) => {
+		const todos = [...child.todos];
+		return {
+			key: child.key,
+			name: child.name,
+			todos,
+			stats: summarizeTodos(todos, { today }),
+			children: toGroups(child, today),
+		};
+	});
+}
+
+function compareNodes(a: GroupNode, b: GroupNode): number {
+	if (a.name === null || b.name === null) {
+		return a.name === null ? (b.name === null ? 0 : 1) : -1;
+	}
+
+	return a.name.localeCompare(b.name, undefined, {
+		numeric: true,
+		sensitivity: "base",
+	});
+}
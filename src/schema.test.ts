@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { parseTodoLine } from "./parser";
+import { getTypedTags, parseDuration } from "./schema";
+
+describe("typed tags", () => {
+	it("スキーマに従って値を変換する", () => {
+		const todo = parseTodoLine(
+			"Task due:2024-01-15 est:1h30m points:3 done:yes rec:+1w owner:bob",
+		);
+
+		const result = getTypedTags(todo, {
+			due: "date",
+			est: "duration",
+			points: "number",
+			done: "boolean",
+			rec: "recurrence",
+			owner: "string",
+		});
+
+		expect(result.tags).toEqual({
+			due: "2024-01-15",
+			est: 90,
+			points: 3,
+			done: true,
+			rec: { strict: true, amount: 1, unit: "w" },
+			owner: "bob",
+		});
+		expect(result.diagnostics).toEqual([]);
+	});
+
+	it("スキーマにないキーは無視する", () => {
+		const todo = parseTodoLine("Task due:2024-01-15 other:x");
+
+		expect(getTypedTags(todo, { due: "date" }).tags).toEqual({
+			due: "2024-01-15",
+		});
+	});
+
+	it("変換できない値は診断として報告する", () => {
+		const todo = parseTodoLine("Task due:2024-13-45 points:many est:soon");
+
+		const result = getTypedTags(todo, {
+			due: "date",
+			points: "number",
+			est: "duration",
+		});
+
+		expect(result.tags).toEqual({});
+		expect(result.diagnostics).toEqual([
+			{
+				key: "due",
+				value: "2024-13-45",
+				expected: "date",
+				message: 'Tag "due" has invalid date value "2024-13-45"',
+			},
+			{
+				key: "points",
+				value: "many",
+				expected: "number",
+				message: 'Tag "points" has invalid number value "many"',
+			},
+			{
+				key: "est",
+				value: "soon",
+				expected: "duration",
+				message: 'Tag "est" has invalid duration value "soon"',
+			},
+		]);
+	});
+
+	it("カスタムの変換関数を使える", () => {
+		const todo = parseTodoLine("Task size:L size:XXL");
+
+		const result = getTypedTags(todo, {
+			size: (value: string) =>
+				["S", "M", "L"].includes(value) ? value.toLowerCase() : undefined,
+		});
+
+		expect(result.tags).toEqual({ size: "l" });
+		expect(result.diagnostics.map((d) => [d.expected, d.message])).toEqual([
+			["custom", 'Tag "size" has invalid value "XXL"'],
+		]);
+	});
+
+	it("真偽値の表記を受け付ける", () => {
+		for (const [raw, expected] of [
+			["true", true],
+			["NO", false],
+			["1", true],
+			["off", false],
+		] as const) {
+			const todo = parseTodoLine(`Task flag:${raw}`);
+			expect(getTypedTags(todo, { flag: "boolean" }).tags.flag).toBe(expected);
+		}
+	});
+});
+
+describe("parse duration", () => {
+	it("単位ごとに分へ変換する", () => {
+		expect(parseDuration("30m")).toBe(30);
+		expect(parseDuration("45min")).toBe(45);
+		expect(parseDuration("2h")).toBe(120);
+		expect(parseDuration("1.5h")).toBe(90);
+		expect(parseDuration("1d")).toBe(1440);
+		expect(parseDuration("1w2d")).toBe(12960);
+	});
+
+	it("不正な値はundefined", () => {
+		expect(parseDuration("")).toBeUndefined();
+		expect(parseDuration("2x")).toBeUndefined();
+		expect(parseDuration("30m2h")).toBeUndefined();
+	});
+});
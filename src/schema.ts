@@ -0,0 +1,124 @@
+import { isValidDate } from "./date";
+import { parseRecurrence } from "./recurrence";
+import { getTagEntries } from "./tags";
+import type {
+	TagCoercer,
+	TagDiagnostic,
+	TagSchema,
+	TagValueType,
+	TagValueTypes,
+	Todo,
+	TypedTags,
+	TypedTagsResult,
+} from "./types";
+
+const MINUTES_PER_UNIT: Record<string, number> = {
+	w: 7 * 24 * 60,
+	d: 24 * 60,
+	h: 60,
+	m: 1,
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+	true: true,
+	yes: true,
+	on: true,
+	"1": true,
+	false: false,
+	no: false,
+	off: false,
+	"0": false,
+};
+
+const COERCERS: {
+	[T in TagValueType]: TagCoercer<TagValueTypes[T]>;
+} = {
+	string: (value) => value,
+	number: (value) =>
+		/^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/.test(value) ? Number(value) : undefined,
+	boolean: (value) => BOOLEAN_VALUES[value.toLowerCase()],
+	date: (value) => (isValidDate(value) ? value : undefined),
+	duration: (value) => parseDuration(value),
+	recurrence: (value) => parseRecurrence(value),
+};
+
+/**
+ * Parse a duration such as "30m", "2h", "1h30m" or "1.5d" into minutes
+ *
+ * Units are w (weeks), d (days of 24 hours), h (hours) and m or min (minutes),
+ * from largest to smallest.
+ *
+ * @param value - Duration string
+ * @returns Duration in minutes, or undefined if the value is not a duration
+ */
+export function parseDuration(value: string): number | undefined {
+	const match = value.match(
+		/^(?:(\d+(?:\.\d+)?)w)?(?:(\d+(?:\.\d+)?)d)?(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?:in)?)?$/,
+	);
+	if (!match || value.length === 0) {
+		return undefined;
+	}
+
+	const units = ["w", "d", "h", "m"];
+	let minutes = 0;
+	units.forEach((unit, index) => {
+		const amount = match[index + 1];
+		if (amount) {
+			minutes += Number(amount) * (MINUTES_PER_UNIT[unit] ?? 0);
+		}
+	});
+
+	return minutes;
+}
+
+/**
+ * Get a typed, validated view of a todo's tags
+ *
+ * Keys not in the schema are ignored. Values that do not coerce are left out
+ * of the result and reported as diagnostics.
+ *
+ * @param todo - Todo to read
+ * @param schema - Tag keys mapped to type names or custom coercers
+ * @returns Typed tags and diagnostics
+ *
+ * @example
+ * ```ts
+ * const { tags, diagnostics } = getTypedTags(
+ *   parseTodoLine("Task due:2024-01-15 est:1h30m points:3 rec:+1w"),
+ *   { due: "date", est: "duration", points: "number", rec: "recurrence" },
+ * );
+ * // tags: { due: "2024-01-15", est: 90, points: 3, rec: { strict: true, amount: 1, unit: "w" } }
+ * ```
+ */
+export function getTypedTags<const S extends TagSchema>(
+	todo: Todo,
+	schema: S,
+): TypedTagsResult<S> {
+	const tags: Record<string, unknown> = {};
+	const diagnostics: TagDiagnostic[] = [];
+
+	for (const { key, value } of getTagEntries(todo)) {
+		const type = schema[key];
+		if (type === undefined) {
+			continue;
+		}
+
+		const coerce: TagCoercer<unknown> =
+			typeof type === "function" ? type : COERCERS[type];
+		const coerced = coerce(value);
+
+		if (coerced === undefined) {
+			const expected = typeof type === "function" ? "custom" : type;
+			diagnostics.push({
+				key,
+				value,
+				expected,
+				message: `Tag "${key}" has invalid ${expected === "custom" ? "" : `${expected} `}value "${value}"`,
+			});
+		} else {
+			tags[key] = coerced;
+		}
+	}
+
+	return { tags: tags as TypedTags<S>, diagnostics };
+}
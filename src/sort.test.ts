@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { parseTodoTxt } from "./parser";
+import { compareTodos, sortTodos, sortTodoTxt } from "./sort";
+
+const todos = parseTodoTxt(`Plain task +beta
+(B) 2024-01-03 Second +alpha due:2024-02-01 est:10
+x 2024-01-05 Done task @home
+(A) First @work due:2024-03-01 est:9
+(B) 2024-01-01 Also second due:2024-01-15`);
+
+const texts = (sorted: typeof todos) =>
+	sorted.map((todo) => todo.description.split(" ").slice(0, 2).join(" "));
+
+describe("sort todos", () => {
+	it("完了状態と優先度（優先度なしは最後）", () => {
+		expect(texts(sortTodos(todos, ["completed", "priority"]))).toEqual([
+			"First @work",
+			"Second +alpha",
+			"Also second",
+			"Plain task",
+			"Done task",
+		]);
+	});
+
+	it("降順でも値がないものは最後", () => {
+		expect(texts(sortTodos(todos, ["-priority"]))).toEqual([
+			"Second +alpha",
+			"Also second",
+			"First @work",
+			"Plain task",
+			"Done task",
+		]);
+	});
+
+	it("期日と作成日", () => {
+		expect(texts(sortTodos(todos, ["due"])).slice(0, 3)).toEqual([
+			"Also second",
+			"Second +alpha",
+			"First @work",
+		]);
+		expect(
+			texts(sortTodos(todos, [{ field: "created", order: "desc" }])).slice(
+				0,
+				2,
+			),
+		).toEqual(["Second +alpha", "Also second"]);
+	});
+
+	it("タグ値は数値として比較する", () => {
+		expect(texts(sortTodos(todos, ["tag:est"])).slice(0, 2)).toEqual([
+			"First @work",
+			"Second +alpha",
+		]);
+	});
+
+	it("プロジェクト・コンテキスト・説明文", () => {
+		expect(texts(sortTodos(todos, ["project"])).slice(0, 2)).toEqual([
+			"Second +alpha",
+			"Plain task",
+		]);
+		expect(texts(sortTodos(todos, ["context"])).slice(0, 2)).toEqual([
+			"Done task",
+			"First @work",
+		]);
+		expect(texts(sortTodos(todos, ["description"]))[0]).toBe("Also second");
+	});
+
+	it("同値は元の行順を保つ", () => {
+		const reversed = [...todos].reverse();
+		expect(texts(sortTodos(reversed, ["completed"])).slice(0, 2)).toEqual([
+			"Plain task",
+			"Second +alpha",
+		]);
+	});
+
+	it("元の配列を変更しない", () => {
+		const copy = [...todos];
+		sortTodos(todos, ["priority"]);
+		expect(todos).toEqual(copy);
+	});
+
+	it("不明なフィールドはRangeError", () => {
+		expect(() => compareTodos(["size"])).toThrow(RangeError);
+		expect(() => compareTodos(["tag"])).toThrow(RangeError);
+	});
+});
+
+describe("sort todo.txt content", () => {
+	it("空行・コメント・改行コードの位置を保って並べ替える", () => {
+		const content = "# header\r\nTask c\r\n\r\n(A) Task a\r\n(B)  Task b";
+
+		expect(sortTodoTxt(content, ["priority"], { commentPrefix: "#" })).toBe(
+			"# header\r\n(A) Task a\r\n\r\n(B)  Task b\r\nTask c",
+		);
+	});
+});
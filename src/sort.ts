@@ -0,0 +1,163 @@
+import {
+	parseTodoDocument,
+	serializeTodoDocument,
+	sortDocumentTasks,
+} from "./parser";
+import { getTagValues } from "./tags";
+import type {
+	SortCriterion,
+	SortSpec,
+	Todo,
+	TodoDocumentOptions,
+} from "./types";
+
+type SortValue = string | number | undefined;
+
+const FIELDS = new Set<SortCriterion["field"]>([
+	"completed",
+	"priority",
+	"due",
+	"threshold",
+	"created",
+	"completion",
+	"project",
+	"context",
+	"tag",
+	"description",
+	"line",
+]);
+
+/**
+ * Create a comparison function from a sort spec
+ *
+ * Keys are applied in order. Missing values (no priority, no due date, no
+ * project...) always sort last, whatever the direction. Ties are broken by
+ * the physical line of each task when known.
+ *
+ * @param spec - Sort keys
+ * @returns Comparison function for `Array.prototype.sort`
+ * @throws {RangeError} If a string shorthand names an unknown field
+ */
+export function compareTodos(spec: SortSpec): (a: Todo, b: Todo) => number {
+	const criteria = spec.map(toCriterion);
+
+	return (a, b) => {
+		for (const criterion of criteria) {
+			const left = sortValue(a, criterion);
+			const right = sortValue(b, criterion);
+
+			if (left === undefined || right === undefined) {
+				if (left !== right) {
+					return left === undefined ? 1 : -1;
+				}
+				continue;
+			}
+
+			const order = compareValues(left, right);
+			if (order !== 0) {
+				return criterion.order === "desc" ? -order : order;
+			}
+		}
+
+		return (a.line ?? 0) - (b.line ?? 0);
+	};
+}
+
+/**
+ * Sort todos by one or more keys
+ *
+ * The sort is stable: todos that compare equal keep their physical line
+ * order, then their input order.
+ *
+ * @param todos - Todos to sort
+ * @param spec - Sort keys
+ * @returns New sorted array
+ * @throws {RangeError} If a string shorthand names an unknown field
+ *
+ * @example
+ * ```ts
+ * sortTodos(todos, ["completed", "priority", "-due", "tag:est"]);
+ * sortTodos(todos, [{ field: "due", order: "desc" }]);
+ * ```
+ */
+export function sortTodos(todos: Todo[], spec: SortSpec): Todo[] {
+	return [...todos].sort(compareTodos(spec));
+}
+
+/**
+ * Sort the tasks of todo.txt content
+ *
+ * Tasks are reordered among the lines that held tasks; blank lines, comments
+ * and line endings stay where they are and task text is moved verbatim.
+ *
+ * @param content - File content
+ * @param spec - Sort keys
+ * @param options - Document options
+ * @returns Sorted file content
+ * @throws {RangeError} If a string shorthand names an unknown field
+ */
+export function sortTodoTxt(
+	content: string,
+	spec: SortSpec,
+	options: TodoDocumentOptions = {},
+): string {
+	return serializeTodoDocument(
+		sortDocumentTasks(parseTodoDocument(content, options), compareTodos(spec)),
+	);
+}
+
+function toCriterion(item: SortCriterion | string): SortCriterion {
+	if (typeof item !== "string") {
+		return item;
+	}
+
+	const order = item.startsWith("-") ? "desc" : "asc";
+	const name = item.replace(/^[-+]/, "");
+
+	if (name.startsWith("tag:") && name.length > 4) {
+		return { field: "tag", tag: name.slice(4), order };
+	}
+	if (!FIELDS.has(name as SortCriterion["field"]) || name === "tag") {
+		throw new RangeError(`Unknown sort field "${name}"`);
+	}
+
+	return { field: name as SortCriterion["field"], order };
+}
+
+function sortValue(todo: Todo, criterion: SortCriterion): SortValue {
+	switch (criterion.field) {
+		case "completed":
+			return todo.completed ? 1 : 0;
+		case "priority":
+			return todo.priority;
+		case "due":
+			return todo.tags.due;
+		case "threshold":
+			return todo.tags.t;
+		case "created":
+			return todo.creationDate;
+		case "completion":
+			return todo.completionDate;
+		case "project":
+			return [...todo.projects].sort(compareValues)[0];
+		case "context":
+			return [...todo.contexts].sort(compareValues)[0];
+		case "tag":
+			return criterion.tag ? getTagValues(todo, criterion.tag)[0] : undefined;
+		case "description":
+			return todo.description;
+		case "line":
+			return todo.line;
+	}
+}
+
+function compareValues(a: string | number, b: string | number): number {
+	if (typeof a === "number" && typeof b === "number") {
+		return a - b;
+	}
+
+	return String(a).localeCompare(String(b), undefined, {
+		numeric: true,
+		sensitivity: "base",
+	});
+}
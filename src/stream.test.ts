@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { parseTodoTxt } from "./parser";
+import { parseTodoStream } from "./stream";
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+	const items: T[] = [];
+	for await (const item of iterable) {
+		items.push(item);
+	}
+	return items;
+}
+
+async function* chunks(...parts: string[]): AsyncGenerator<string> {
+	yield* parts;
+}
+
+describe("parseTodoStream", () => {
+	it("チャンクをまたぐ行とCRLFを扱う", async () => {
+		const todos = await collect(
+			parseTodoStream(
+				chunks("(A) Task", " 1 +work\r", "\n\r\nTask 2\nx 2024-", "01-05 Done"),
+			),
+		);
+
+		expect(todos.map((todo) => todo.raw)).toEqual([
+			"(A) Task 1 +work",
+			"Task 2",
+			"x 2024-01-05 Done",
+		]);
+		expect(todos.map((todo) => todo.line)).toEqual([0, 2, 3]);
+		expect(todos[0]?.projects).toEqual(["work"]);
+	});
+
+	it("parseTodoTxtと同じ内容を返す(idを除く)", async () => {
+		const content = "Task 1\n\n# note\n(B) Task 2 due:2024-01-10\n";
+		const streamed = await collect(
+			parseTodoStream(chunks(...content.split("")), { commentPrefix: "#" }),
+		);
+
+		expect(streamed).toEqual(
+			parseTodoTxt(content, { commentPrefix: "#" }).map(
+				({ id, ...todo }) => todo,
+			),
+		);
+	});
+
+	it("ReadableStreamから読み込む", async () => {
+		const stream = new ReadableStream<string>({
+			start(controller) {
+				controller.enqueue("Task 1\nTa");
+				controller.enqueue("sk 2");
+				controller.close();
+			},
+		});
+
+		const todos = await collect(parseTodoStream(stream));
+
+		expect(todos.map((todo) => todo.description)).toEqual(["Task 1", "Task 2"]);
+	});
+
+	it("空のストリーム", async () => {
+		expect(await collect(parseTodoStream(chunks()))).toEqual([]);
+	});
+});
@@ -0,0 +1,93 @@
+import { createDocumentLine } from "./parser";
+import type { Todo, TodoDocumentOptions } from "./types";
+
+/**
+ * Parse todo.txt content from a stream of text chunks
+ *
+ * Lines are parsed as they arrive, so memory use does not grow with the size
+ * of the file. Chunks may split lines (and CRLF pairs) anywhere. Tasks carry
+ * their physical `line`; unlike {@link parseTodoDocument}, no `id` is
+ * assigned since that would mean remembering every line.
+ *
+ * @param source - Web `ReadableStream` of strings (for example a byte stream
+ * piped through `TextDecoderStream`) or any async iterable of strings
+ * @param options - Document options
+ * @returns Async iterable of tasks in file order
+ *
+ * @example
+ * ```ts
+ * const response = await fetch("/done.txt");
+ * const stream = response.body.pipeThrough(new TextDecoderStream());
+ * for await (const todo of parseTodoStream(stream)) {
+ *   console.log(todo.line, todo.description);
+ * }
+ * ```
+ */
+export async function* parseTodoStream(
+	source: ReadableStream<string> | AsyncIterable<string>,
+	options: TodoDocumentOptions = {},
+): AsyncGenerator<Todo, void, undefined> {
+	let buffer = "";
+	let line = 0;
+
+	for await (const chunk of chunksOf(source)) {
+		buffer += chunk;
+
+		let start = 0;
+		let end = buffer.indexOf("\n");
+		while (end !== -1) {
+			const text = buffer.slice(
+				start,
+				end > start && buffer[end - 1] === "\r" ? end - 1 : end,
+			);
+			const todo = parseStreamLine(text, line++, options);
+			if (todo) {
+				yield todo;
+			}
+
+			start = end + 1;
+			end = buffer.indexOf("\n", start);
+		}
+
+		buffer = buffer.slice(start);
+	}
+
+	if (buffer.length > 0) {
+		const todo = parseStreamLine(buffer, line, options);
+		if (todo) {
+			yield todo;
+		}
+	}
+}
+
+function parseStreamLine(
+	text: string,
+	line: number,
+	options: TodoDocumentOptions,
+): Todo | undefined {
+	const { todo } = createDocumentLine(text, "", options);
+	return todo ? { ...todo, line } : undefined;
+}
+
+async function* chunksOf(
+	source: ReadableStream<string> | AsyncIterable<string>,
+): AsyncGenerator<string, void, undefined> {
+	if (!("getReader" in source)) {
+		yield* source;
+		return;
+	}
+
+	// Not every browser makes ReadableStream async iterable yet
+	const reader = source.getReader();
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				return;
+			}
+			yield value;
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
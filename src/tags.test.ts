@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseTodoLine, serializeTodo } from "./parser";
+import { getTagEntries, getTagValues, hasTag } from "./tags";
+import type { Todo } from "./types";
+
+describe("repeated tag keys", () => {
+	it("繰り返しキーを出現順に保持する", () => {
+		const todo = parseTodoLine("Task link:a blocked:1 link:b blocked:2");
+
+		expect(todo.tagEntries).toEqual([
+			{ key: "link", value: "a" },
+			{ key: "blocked", value: "1" },
+			{ key: "link", value: "b" },
+			{ key: "blocked", value: "2" },
+		]);
+		expect(todo.tags).toEqual({ link: "b", blocked: "2" });
+	});
+
+	it("getTagValuesでキーの全ての値を取得する", () => {
+		const todo = parseTodoLine("Task link:a due:2024-01-15 link:b");
+
+		expect(getTagValues(todo, "link")).toEqual(["a", "b"]);
+		expect(getTagValues(todo, "due")).toEqual(["2024-01-15"]);
+		expect(getTagValues(todo, "missing")).toEqual([]);
+	});
+
+	it("hasTagでキーの有無を判定する", () => {
+		const todo = parseTodoLine("Task link:a");
+
+		expect(hasTag(todo, "link")).toBe(true);
+		expect(hasTag(todo, "due")).toBe(false);
+	});
+
+	it("tagEntriesがないTodoはtagsから組み立てる", () => {
+		const todo: Todo = {
+			completed: false,
+			description: "Task due:2024-01-15",
+			projects: [],
+			contexts: [],
+			tags: { due: "2024-01-15" },
+			raw: "",
+		};
+
+		expect(getTagEntries(todo)).toEqual([{ key: "due", value: "2024-01-15" }]);
+	});
+
+	it("シリアライズで繰り返しキーと順序を保持する", () => {
+		const line = "(A) Task link:b link:a due:2024-01-15 link:c";
+
+		expect(serializeTodo(parseTodoLine(line))).toBe(line);
+	});
+});
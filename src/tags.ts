@@ -0,0 +1,56 @@
+import type { Todo, TodoTag } from "./types";
+
+/**
+ * Get all key-value tags of a todo in source order
+ *
+ * Falls back to the `tags` map for Todo objects built without `tagEntries`.
+ *
+ * @param todo - Todo to read
+ * @returns Tag entries, including repeated keys
+ *
+ * @example
+ * ```ts
+ * getTagEntries(parseTodoLine("Task link:a due:2024-01-15 link:b"));
+ * // [
+ * //   { key: "link", value: "a" },
+ * //   { key: "due", value: "2024-01-15" },
+ * //   { key: "link", value: "b" }
+ * // ]
+ * ```
+ */
+export function getTagEntries(todo: Todo): TodoTag[] {
+	if (todo.tagEntries) {
+		return todo.tagEntries;
+	}
+
+	return Object.entries(todo.tags).map(([key, value]) => ({ key, value }));
+}
+
+/**
+ * Get every value of a tag key in source order
+ *
+ * @param todo - Todo to read
+ * @param key - Tag key
+ * @returns Values of the key (empty if the tag is absent)
+ *
+ * @example
+ * ```ts
+ * getTagValues(parseTodoLine("Task blocked:1 blocked:2"), "blocked"); // ["1", "2"]
+ * ```
+ */
+export function getTagValues(todo: Todo, key: string): string[] {
+	return getTagEntries(todo)
+		.filter((tag) => tag.key === key)
+		.map((tag) => tag.value);
+}
+
+/**
+ * Check whether a todo has a tag key
+ *
+ * @param todo - Todo to read
+ * @param key - Tag key
+ * @returns true if at least one tag has the key
+ */
+export function hasTag(todo: Todo, key: string): boolean {
+	return getTagEntries(todo).some((tag) => tag.key === key);
+}
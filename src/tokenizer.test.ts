@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { parseTodoLine } from "./parser";
+import { tokenizeTodoLine } from "./tokenizer";
+
+describe("tokenize todo line", () => {
+	it("全要素のトークンと位置を返す", () => {
+		const line =
+			"x (A) 2024-01-02 2024-01-01 Call Mom +Family @phone due:2024-01-15";
+
+		expect(tokenizeTodoLine(line)).toEqual([
+			{ type: "completion", start: 0, end: 1, text: "x" },
+			{ type: "priority", start: 2, end: 5, text: "(A)", value: "A" },
+			{
+				type: "completionDate",
+				start: 6,
+				end: 16,
+				text: "2024-01-02",
+				value: "2024-01-02",
+			},
+			{
+				type: "creationDate",
+				start: 17,
+				end: 27,
+				text: "2024-01-01",
+				value: "2024-01-01",
+			},
+			{ type: "text", start: 28, end: 36, text: "Call Mom" },
+			{
+				type: "project",
+				start: 37,
+				end: 44,
+				text: "+Family",
+				value: "Family",
+			},
+			{ type: "context", start: 45, end: 51, text: "@phone", value: "phone" },
+			{
+				type: "tag",
+				start: 52,
+				end: 66,
+				text: "due:2024-01-15",
+				value: "2024-01-15",
+				key: "due",
+			},
+		]);
+	});
+
+	it("各トークンのtextは元の行の範囲と一致する", () => {
+		const line = "  (B) Task +a text @b more  words k:v  ";
+
+		for (const token of tokenizeTodoLine(line)) {
+			expect(line.slice(token.start, token.end)).toBe(token.text);
+		}
+	});
+
+	it("連続する通常の単語は1つのtextトークンにまとめる", () => {
+		const tokens = tokenizeTodoLine("Buy  fresh milk +shop and eggs");
+
+		expect(tokens.map((token) => [token.type, token.text])).toEqual([
+			["text", "Buy  fresh milk"],
+			["project", "+shop"],
+			["text", "and eggs"],
+		]);
+	});
+
+	it("未完了タスクの日付は作成日", () => {
+		const tokens = tokenizeTodoLine("2024-01-01 Task");
+
+		expect(tokens[0]).toMatchObject({ type: "creationDate", start: 0 });
+	});
+
+	it("先頭スペースがある完了タスクの位置", () => {
+		const tokens = tokenizeTodoLine("  x   Task");
+
+		expect(tokens.map((token) => [token.type, token.start])).toEqual([
+			["completion", 2],
+			["text", 6],
+		]);
+	});
+
+	it("空行はトークンなし", () => {
+		expect(tokenizeTodoLine("")).toEqual([]);
+		expect(tokenizeTodoLine("   ")).toEqual([]);
+	});
+});
+
+describe("parse todo line with tokens", () => {
+	it("tokensオプションでトークンを付与する", () => {
+		const todo = parseTodoLine("(A) Task +p", { tokens: true });
+
+		expect(todo.tokens?.map((token) => token.type)).toEqual([
+			"priority",
+			"text",
+			"project",
+		]);
+	});
+
+	it("オプションなしではトークンを付与しない", () => {
+		expect(parseTodoLine("(A) Task +p")).not.toHaveProperty("tokens");
+	});
+});
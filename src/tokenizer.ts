@@ -0,0 +1,208 @@
+import type { ParseOptions, TodoToken } from "./types";
+
+// Schemes whose URLs do not start with "//" (e.g. "mailto:bob@example.com")
+const URL_SCHEMES = new Set([
+	"data",
+	"geo",
+	"magnet",
+	"mailto",
+	"news",
+	"sip",
+	"sms",
+	"tel",
+	"urn",
+]);
+
+/**
+ * Result of scanning a todo.txt line
+ */
+export interface TodoLineScan {
+	/** Tokens in source order */
+	tokens: TodoToken[];
+	/** Offset where the description starts */
+	bodyStart: number;
+	/** Offset where the description ends (trailing whitespace excluded) */
+	bodyEnd: number;
+}
+
+/**
+ * Split a single todo.txt line into tokens with source offsets
+ *
+ * @param line - A single line in todo.txt format
+ * @param options - Parse options (only `isTag` is used)
+ * @returns Tokens in source order
+ *
+ * @example
+ * ```ts
+ * const tokens = tokenizeTodoLine("(A) Call Mom +Family");
+ * // [
+ * //   { type: "priority", start: 0, end: 3, text: "(A)", value: "A" },
+ * //   { type: "text", start: 4, end: 12, text: "Call Mom" },
+ * //   { type: "project", start: 13, end: 20, text: "+Family", value: "Family" }
+ * // ]
+ * ```
+ */
+export function tokenizeTodoLine(
+	line: string,
+	options: ParseOptions = {},
+): TodoToken[] {
+	return scanTodoLine(line, options).tokens;
+}
+
+/**
+ * Default tag recognizer following the todo.txt rule
+ *
+ * A word is a tag when neither side of its first colon is empty, except for
+ * URLs (`https://…`, `mailto:…`), times (`10:30`) and paths (`C:\…`).
+ *
+ * @param key - Text before the first colon
+ * @param value - Text after the first colon
+ * @returns Whether the word is a tag
+ *
+ * @example
+ * ```ts
+ * isTodoTag("due", "2024-01-15"); // true
+ * isTodoTag("https", "//example.com"); // false
+ * isTodoTag("10", "30"); // false
+ * ```
+ */
+export function isTodoTag(key: string, value: string): boolean {
+	// URLs with an authority ("https://") and absolute paths ("C:\", "C:/")
+	if (value.startsWith("/") || value.startsWith("\\")) {
+		return false;
+	}
+
+	if (URL_SCHEMES.has(key.toLowerCase())) {
+		return false;
+	}
+
+	// Times such as "10:30" or "9:05am"
+	if (/^\d+$/.test(key) && /^\d/.test(value)) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Scan a todo.txt line into tokens and the bounds of its description
+ *
+ * @param line - A single line in todo.txt format
+ * @param options - Parse options (only `isTag` is used)
+ * @returns Tokens and description bounds
+ */
+export function scanTodoLine(
+	line: string,
+	options: ParseOptions = {},
+): TodoLineScan {
+	const isTag = options.isTag ?? isTodoTag;
+	const tokens: TodoToken[] = [];
+	const start = line.length - line.trimStart().length;
+	const end = line.trimEnd().length;
+	let cursor = start;
+
+	// Completion mark
+	const completed = start + 2 < end && line.startsWith("x ", start);
+	if (completed) {
+		tokens.push(createToken("completion", line, start, start + 1));
+		cursor = start + 1;
+		while (cursor < end && /\s/.test(line.charAt(cursor))) {
+			cursor++;
+		}
+	}
+
+	// Priority (exactly one whitespace character is consumed after it)
+	const priorityMatch = line.slice(cursor, end).match(/^\(([A-Z])\)\s/);
+	if (priorityMatch) {
+		tokens.push(
+			createToken("priority", line, cursor, cursor + 3, priorityMatch[1]),
+		);
+		cursor += priorityMatch[0].length;
+	}
+
+	// Dates (YYYY-MM-DD format)
+	const dates: Array<[number, string]> = [];
+	for (let i = 0; i < 2; i++) {
+		const dateMatch = line.slice(cursor, end).match(/^(\d{4}-\d{2}-\d{2})\s/);
+		if (!dateMatch?.[1]) {
+			break;
+		}
+		dates.push([cursor, dateMatch[1]]);
+		cursor += dateMatch[0].length;
+	}
+
+	// Two dates: completion then creation; one date: depends on completion
+	dates.forEach(([offset, date], index) => {
+		const type =
+			dates.length === 2
+				? index === 0
+					? "completionDate"
+					: "creationDate"
+				: completed
+					? "completionDate"
+					: "creationDate";
+		tokens.push(createToken(type, line, offset, offset + date.length, date));
+	});
+
+	// Description words
+	const bodyStart = Math.min(cursor, end);
+	let textStart = -1;
+	let textEnd = -1;
+	const flushText = () => {
+		if (textStart !== -1) {
+			tokens.push(createToken("text", line, textStart, textEnd));
+			textStart = -1;
+		}
+	};
+
+	for (const match of line.slice(bodyStart, end).matchAll(/\S+/g)) {
+		const word = match[0];
+		const wordStart = bodyStart + match.index;
+		const wordEnd = wordStart + word.length;
+		const tagMatch = word.match(/^([^\s:]+):(\S+)$/);
+
+		if (/^\+\S/.test(word)) {
+			flushText();
+			tokens.push(
+				createToken("project", line, wordStart, wordEnd, word.slice(1)),
+			);
+		} else if (/^@\S/.test(word)) {
+			flushText();
+			tokens.push(
+				createToken("context", line, wordStart, wordEnd, word.slice(1)),
+			);
+		} else if (
+			tagMatch?.[1] &&
+			tagMatch[2] &&
+			isTag(tagMatch[1], tagMatch[2])
+		) {
+			flushText();
+			tokens.push({
+				...createToken("tag", line, wordStart, wordEnd, tagMatch[2]),
+				key: tagMatch[1],
+			});
+		} else {
+			if (textStart === -1) {
+				textStart = wordStart;
+			}
+			textEnd = wordEnd;
+		}
+	}
+	flushText();
+
+	return { tokens, bodyStart, bodyEnd: end };
+}
+
+function createToken(
+	type: TodoToken["type"],
+	line: string,
+	start: number,
+	end: number,
+	value?: string,
+): TodoToken {
+	const token: TodoToken = { type, start, end, text: line.slice(start, end) };
+	if (value !== undefined) {
+		token.value = value;
+	}
+	return token;
+}
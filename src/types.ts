@@ -20,8 +20,900 @@ export interface Todo {
 	projects: string[];
 	/** Context tags (@context) */
 	contexts: string[];
-	/** Key-value tags (key:value format) */
+	/** Key-value tags (key:value format); for repeated keys the last value wins */
 	tags: Record<string, string>;
+	/** All key-value tags in source order, including repeated keys */
+	tagEntries?: TodoTag[];
 	/** Original raw line */
 	raw: string;
+	/** Zero-based physical line index in the source file (set when parsed from a file) */
+	line?: number;
+	/**
+	 * Stable task identity within a file: a hash of the line content plus its
+	 * occurrence among identical lines (set when parsed from a file)
+	 */
+	id?: string;
+	/** Source tokens with offsets into `raw` (only when parsed with `tokens: true`) */
+	tokens?: TodoToken[];
+}
+
+/**
+ * Kind of a token in a todo.txt line
+ */
+export type TodoTokenType =
+	| "completion"
+	| "priority"
+	| "completionDate"
+	| "creationDate"
+	| "project"
+	| "context"
+	| "tag"
+	| "text";
+
+/**
+ * A span of a todo.txt line with its meaning
+ *
+ * Whitespace between tokens is not represented; consecutive plain words are
+ * merged into a single "text" token.
+ */
+export interface TodoToken {
+	/** Kind of token */
+	type: TodoTokenType;
+	/** Zero-based start offset in the raw line */
+	start: number;
+	/** Zero-based end offset in the raw line (exclusive) */
+	end: number;
+	/** Source text of the token */
+	text: string;
+	/**
+	 * Extracted value: the priority letter, the date, the project or context
+	 * name without its sigil, or the tag value
+	 */
+	value?: string;
+	/** Tag key (tag tokens only; the value starts at `start + key.length + 1`) */
+	key?: string;
+}
+
+/**
+ * Decides whether a `key:value` word is a tag
+ *
+ * Called with the text before and after the first colon of a word; both are
+ * non-empty and the key never contains a colon.
+ */
+export type TagRecognizer = (key: string, value: string) => boolean;
+
+/**
+ * Options for parsing a single todo.txt line
+ */
+export interface ParseOptions {
+	/** Attach source tokens to the parsed Todo */
+	tokens?: boolean;
+	/** Tag recognizer (defaults to `isTodoTag`) */
+	isTag?: TagRecognizer;
+}
+
+/**
+ * A single key:value tag
+ */
+export interface TodoTag {
+	/** Tag key (text before the first colon) */
+	key: string;
+	/** Tag value (text after the first colon) */
+	value: string;
+}
+
+/**
+ * Line terminator of a physical line
+ *
+ * An empty string marks the final line of a file without a trailing newline.
+ */
+export type LineEnding = "\n" | "\r\n" | "";
+
+/**
+ * A single physical line of a todo.txt file
+ */
+export interface TodoDocumentLine {
+	/** Kind of line: a task, an empty/whitespace-only line, or a comment */
+	kind: "task" | "blank" | "comment";
+	/** Line content exactly as written, without its line ending */
+	text: string;
+	/** Line ending that followed the line in the source */
+	eol: LineEnding;
+	/** Parsed task (only for task lines) */
+	todo?: Todo;
+}
+
+/**
+ * Lossless representation of a todo.txt file
+ *
+ * Keeps every physical line with its original line ending, so serializing an
+ * unmodified document reproduces the input byte for byte. Whether the file
+ * ends with a newline is carried by the `eol` of the last line.
+ */
+export interface TodoDocument {
+	/** All physical lines in file order */
+	lines: TodoDocumentLine[];
+	/** Line ending used for newly inserted lines (the file's dominant one) */
+	newline: "\n" | "\r\n";
+	/** Options the document was parsed with, reused for lines written later */
+	options: TodoDocumentOptions;
+}
+
+/**
+ * Options for parsing a todo.txt document
+ */
+export interface TodoDocumentOptions extends ParseOptions {
+	/** Lines starting with this prefix are kept as comments instead of tasks */
+	commentPrefix?: string;
+}
+
+/**
+ * Severity of a parse diagnostic
+ *
+ * Errors mark lines that other todo.txt clients will read differently from
+ * what was intended; warnings mark non-standard but harmless input.
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * Machine-readable identifier of a parse diagnostic
+ */
+export type DiagnosticCode =
+	| "lowercase-priority"
+	| "invalid-date"
+	| "completion-date-on-open-task"
+	| "missing-space-after-completion-mark"
+	| "uppercase-completion-mark";
+
+/**
+ * A problem found while parsing a todo.txt line
+ */
+export interface TodoDiagnostic {
+	/** Zero-based physical line index */
+	line: number;
+	/** Zero-based column of the offending text */
+	column: number;
+	/** Length of the offending text */
+	length: number;
+	/** Severity of the problem */
+	severity: DiagnosticSeverity;
+	/** Machine-readable identifier */
+	code: DiagnosticCode;
+	/** Human-readable description */
+	message: string;
+}
+
+/**
+ * Options for parsing with diagnostics
+ */
+export interface DiagnosticOptions extends TodoDocumentOptions {
+	/**
+	 * Throw a TodoParseError when a diagnostic is found: `true` rejects any
+	 * diagnostic, `"error"` only error-severity ones (warnings are returned)
+	 */
+	strict?: boolean | "error";
+}
+
+/**
+ * Result of parsing with diagnostics
+ */
+export interface ParseResult {
+	/** Parsed tasks */
+	todos: Todo[];
+	/** Problems found, in line and column order */
+	diagnostics: TodoDiagnostic[];
+}
+
+/**
+ * Unit of a recurrence interval
+ *
+ * d: days, b: business days (Mon-Fri), w: weeks, m: months, y: years
+ */
+export type RecurrenceUnit = "d" | "b" | "w" | "m" | "y";
+
+/**
+ * Parsed `rec:` tag value such as "1w" or "+3m"
+ */
+export interface Recurrence {
+	/**
+	 * Strict recurrence ("+" prefix): the next occurrence is based on the
+	 * original due date instead of the completion date
+	 */
+	strict: boolean;
+	/** Number of units between occurrences */
+	amount: number;
+	/** Interval unit */
+	unit: RecurrenceUnit;
+}
+
+/**
+ * Coerced types of the built-in tag value types
+ *
+ * Dates stay YYYY-MM-DD strings (validated); durations are in minutes.
+ */
+export interface TagValueTypes {
+	string: string;
+	number: number;
+	boolean: boolean;
+	date: string;
+	duration: number;
+	recurrence: Recurrence;
+}
+
+/**
+ * Name of a built-in tag value type
+ */
+export type TagValueType = keyof TagValueTypes;
+
+/**
+ * Custom coercion of a raw tag value; returns undefined if the value is invalid
+ */
+export type TagCoercer<T> = (value: string) => T | undefined;
+
+/**
+ * Mapping from tag keys to built-in type names or custom coercers
+ */
+export type TagSchema = Record<string, TagValueType | TagCoercer<unknown>>;
+
+/**
+ * Typed view of a todo's tags for a given schema
+ */
+export type TypedTags<S extends TagSchema> = {
+	[K in keyof S]?: S[K] extends TagValueType
+		? TagValueTypes[S[K]]
+		: S[K] extends TagCoercer<infer T>
+			? T
+			: never;
+};
+
+/**
+ * A tag value that could not be coerced to its schema type
+ */
+export interface TagDiagnostic {
+	/** Tag key */
+	key: string;
+	/** Raw tag value */
+	value: string;
+	/** Expected type name ("custom" for coercer functions) */
+	expected: TagValueType | "custom";
+	/** Human-readable description */
+	message: string;
+}
+
+/**
+ * Result of applying a tag schema to a todo
+ */
+export interface TypedTagsResult<S extends TagSchema> {
+	/** Successfully coerced values (the last valid value wins for repeated keys) */
+	tags: TypedTags<S>;
+	/** Values that did not coerce */
+	diagnostics: TagDiagnostic[];
+}
+
+/**
+ * Options for completing and uncompleting tasks
+ */
+export interface CompletionOptions extends ParseOptions {
+	/** Completion date in YYYY-MM-DD format (defaults to today in local time) */
+	date?: string;
+	/**
+	 * Tag key the priority is moved to on completion and restored from on
+	 * uncompletion, or false to drop the priority (defaults to "pri")
+	 */
+	priorityTag?: string | false;
+}
+
+/**
+ * Comparison operator in a query term such as `due<today` or `pri:A`
+ *
+ * ":" and "=" both mean equality.
+ */
+export type QueryOperator = ":" | "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+/**
+ * Node of a parsed query
+ *
+ * Every node records its source span (`start` inclusive, `end` exclusive).
+ */
+export type QueryNode =
+	| { type: "and"; children: QueryNode[]; start: number; end: number }
+	| { type: "or"; children: QueryNode[]; start: number; end: number }
+	| { type: "not"; child: QueryNode; start: number; end: number }
+	/** Completed tasks (`done`) */
+	| { type: "done"; start: number; end: number }
+	/** `+project` */
+	| { type: "project"; name: string; start: number; end: number }
+	/** `@context` */
+	| { type: "context"; name: string; start: number; end: number }
+	/** Bare word or quoted string matched against the description */
+	| { type: "text"; value: string; start: number; end: number }
+	/** `/pattern/flags` matched against the description */
+	| { type: "regex"; pattern: RegExp; start: number; end: number }
+	/** Field comparison; `to` is set for ranges such as `pri:A-C` */
+	| {
+			type: "compare";
+			field: string;
+			operator: QueryOperator;
+			value: string;
+			to?: string;
+			start: number;
+			end: number;
+	  };
+
+/**
+ * Options for date-relative operations
+ */
+export interface DateOptions {
+	/**
+	 * Date that `today` refers to: a YYYY-MM-DD string, or an instant converted
+	 * to a date in `timeZone` (defaults to the current time)
+	 */
+	today?: string | Date;
+	/** IANA time zone such as "Asia/Tokyo" (defaults to local time) */
+	timeZone?: string;
+}
+
+/**
+ * Options for evaluating queries
+ */
+export type QueryOptions = DateOptions;
+
+/**
+ * Field a todo list can be sorted by
+ *
+ * "tag" sorts by the value of the tag named in `SortCriterion.tag`; "line"
+ * sorts by the physical line the task was parsed from.
+ */
+export type SortField =
+	| "completed"
+	| "priority"
+	| "due"
+	| "threshold"
+	| "created"
+	| "completion"
+	| "project"
+	| "context"
+	| "tag"
+	| "description"
+	| "line";
+
+/**
+ * One sort key
+ */
+export interface SortCriterion {
+	/** Field to sort by */
+	field: SortField;
+	/** Tag key (only for the "tag" field) */
+	tag?: string;
+	/** Sort direction (defaults to "asc") */
+	order?: "asc" | "desc";
+}
+
+/**
+ * Sort keys in priority order
+ *
+ * Strings are shorthands: "priority", "-due" (descending) or "tag:est".
+ */
+export type SortSpec = Array<SortCriterion | string>;
+
+/**
+ * Options for archiving completed tasks
+ */
+export interface ArchiveOptions extends TodoDocumentOptions {
+	/**
+	 * Only archive tasks completed at least this many days before `today`;
+	 * completed tasks without a completion date are then kept
+	 */
+	minAgeDays?: number;
+	/** Reference date in YYYY-MM-DD format (defaults to today in local time) */
+	today?: string;
+}
+
+/**
+ * Result of archiving completed tasks
+ */
+export interface ArchiveResult {
+	/** New todo.txt content without the archived tasks */
+	todo: string;
+	/** New done.txt content with the archived tasks appended */
+	done: string;
+	/** Archived tasks in their original order */
+	archived: Todo[];
+}
+
+/**
+ * What to group todos by
+ *
+ * - `project` / `context`: each name (a task in several is in several groups)
+ * - `tag`: each value of the tag key given in `GroupOptions.tag`
+ * - `completionWeek`: ISO week of the completion date ("2024-W02")
+ */
+export type GroupBy = "project" | "context" | "tag" | "completionWeek";
+
+/**
+ * Options for grouping todos
+ */
+export interface GroupOptions {
+	/** Grouping key */
+	by: GroupBy;
+	/** Tag key when grouping by tag */
+	tag?: string;
+	/**
+	 * Split project and context names into nested groups with this separator
+	 * (e.g. "." turns `+work.backend` into "work" > "backend")
+	 */
+	separator?: string;
+	/** Reference date in YYYY-MM-DD format for ages (defaults to today in local time) */
+	today?: string;
+}
+
+/**
+ * Aggregated statistics of a set of todos
+ */
+export interface TodoStats {
+	/** Number of todos */
+	total: number;
+	/** Number of open todos */
+	open: number;
+	/** Number of completed todos */
+	completed: number;
+	/** completed / total (0 when there are no todos) */
+	completionRatio: number;
+	/** Days since the creation date of the oldest open todo that has one */
+	oldestOpenAge?: number;
+}
+
+/**
+ * A group of todos in a report tree
+ */
+export interface TodoGroup {
+	/** Full group key, or null for todos without one (e.g. no project) */
+	key: string | null;
+	/** Last segment of the key (same as `key` without a separator) */
+	name: string | null;
+	/** Todos in this group and its subgroups, each listed once */
+	todos: Todo[];
+	/** Statistics over `todos` */
+	stats: TodoStats;
+	/** Nested groups */
+	children: TodoGroup[];
+}
+
+/**
+ * Options for hierarchical project and context names
+ */
+export interface HierarchyOptions extends TodoDocumentOptions {
+	/** Separator between name segments (default: ".") */
+	separator?: string;
+}
+
+/**
+ * A node of a project or context name tree
+ */
+export interface HierarchyNode {
+	/** Last segment of the name ("api" for `+work.backend.api`) */
+	name: string;
+	/** Full name ("work.backend.api") */
+	path: string;
+	/** Number of todos using this name or a name below it */
+	count: number;
+	/** Child nodes sorted by name */
+	children: HierarchyNode[];
+}
+
+/**
+ * Options for resolving relative dates in tags
+ */
+export interface ResolveDatesOptions extends DateOptions {
+	/** Tag keys holding dates (default: ["due", "t"]) */
+	keys?: string[];
+}
+
+/**
+ * Context passed to quick-add rules
+ */
+export interface QuickAddContext {
+	/** Reference date in YYYY-MM-DD format */
+	today: string;
+	/** Priority found so far */
+	priority?: string;
+	/** Tags found so far */
+	tags: Record<string, string>;
+}
+
+/**
+ * What a quick-add rule extracted from its match
+ */
+export interface QuickAddResult {
+	/** Priority letter A-Z */
+	priority?: string;
+	/** Tags to add (keys already set by earlier matches are kept) */
+	tags?: Record<string, string>;
+	/** Text left in place of the match (default: removed) */
+	text?: string;
+}
+
+/**
+ * A quick-add grammar rule
+ *
+ * The pattern is matched against whole words of the input; returning
+ * undefined from `apply` leaves the match in the description.
+ */
+export interface QuickAddRule {
+	/** Rule name, for documentation and debugging */
+	name: string;
+	/** Pattern matched at word boundaries (flags such as "i" are kept) */
+	pattern: RegExp;
+	/** Turn a match into todo fields */
+	apply: (
+		match: RegExpExecArray,
+		context: QuickAddContext,
+	) => QuickAddResult | undefined;
+}
+
+/**
+ * Options for natural-language task entry
+ */
+export interface AddTaskOptions extends DateOptions {
+	/** Grammar rules applied in order (default: `defaultQuickAddRules`) */
+	rules?: QuickAddRule[];
+	/** Set the creation date to today (default: true) */
+	creationDate?: boolean;
+}
+
+/**
+ * Options for merging todo.txt files
+ */
+export interface MergeOptions extends TodoDocumentOptions {
+	/**
+	 * Write conflicts as `<<<<<<< ours` / `||||||| base` / `=======` /
+	 * `>>>>>>> theirs` blocks (default: true). When false, a conflicted task
+	 * keeps our version, or the edited version if one side deleted it.
+	 */
+	markers?: boolean;
+}
+
+/**
+ * A task both sides changed in incompatible ways
+ */
+export interface MergeConflict {
+	/** Zero-based physical line where the conflict starts in the merged content */
+	line: number;
+	/** "modified" if both sides edited the task, "deleted" if one side deleted it */
+	reason: "modified" | "deleted";
+	/** Task text in the common ancestor */
+	base: string;
+	/** Our task text (undefined if we deleted it) */
+	ours?: string;
+	/** Their task text (undefined if they deleted it) */
+	theirs?: string;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+	/** Merged file content */
+	content: string;
+	/** Conflicts in order of appearance (empty for a clean merge) */
+	conflicts: MergeConflict[];
+}
+
+/**
+ * Kind of change to a task between two versions of a file
+ */
+export type TodoChangeKind =
+	| "added"
+	| "removed"
+	| "completed"
+	| "reopened"
+	| "reprioritized"
+	| "retagged"
+	| "edited";
+
+/**
+ * Items added to and removed from a list
+ */
+export interface TodoListChange<T> {
+	added: T[];
+	removed: T[];
+}
+
+/**
+ * How one task changed between two versions of a file
+ */
+export interface TodoChange {
+	/** What changed; a task can be completed and retagged at once */
+	kinds: TodoChangeKind[];
+	/** Task before the change (undefined if added) */
+	before?: Todo;
+	/** Task after the change (undefined if removed) */
+	after?: Todo;
+	/** Project changes (when retagged) */
+	projects?: TodoListChange<string>;
+	/** Context changes (when retagged) */
+	contexts?: TodoListChange<string>;
+	/** Tag changes (when retagged) */
+	tags?: TodoListChange<TodoTag>;
+}
+
+/**
+ * Options for diffing todo.txt files
+ */
+export interface DiffOptions extends TodoDocumentOptions {
+	/**
+	 * Tag holding the priority of completed tasks (default: "pri"); completing
+	 * or reopening a task does not report the priority moving to or from it
+	 */
+	priorityTag?: string | false;
+}
+
+/**
+ * A text edit on file content, as reported by an editor
+ */
+export interface TextEdit {
+	/** Zero-based start offset of the replaced range */
+	start: number;
+	/** Zero-based end offset of the replaced range (exclusive) */
+	end: number;
+	/** Replacement text */
+	text: string;
+}
+
+/**
+ * Options for `TodoFile` (Node.js entry point)
+ */
+export interface TodoFileOptions extends TodoDocumentOptions {
+	/**
+	 * Overwrite changes made by other processes instead of throwing
+	 * `TodoFileConflictError` (default: false)
+	 */
+	force?: boolean;
+}
+
+/**
+ * Options for `runTodoCli` (Node.js entry point)
+ */
+export interface TodoCliOptions {
+	/**
+	 * Environment variables read for `TODO_FILE`, `DONE_FILE`, `TODO_DIR`,
+	 * `TODOTXT_DATE_ON_ADD` and `TODOTXT_AUTO_ARCHIVE` (default: process.env)
+	 */
+	env?: Record<string, string | undefined>;
+	/** Directory relative paths are resolved against (default: process.cwd()) */
+	cwd?: string;
+	/** Date in YYYY-MM-DD format used for new dates (defaults to today in local time) */
+	today?: string;
+	/** Receives each line of regular output (default: process.stdout) */
+	stdout?: (line: string) => void;
+	/** Receives each line of error output (default: process.stderr) */
+	stderr?: (line: string) => void;
+}
+
+/**
+ * Machine-readable identifier of a Todo validation issue
+ *
+ * - `type`: wrong JSON type
+ * - `required`: missing required property
+ * - `unknown-property`: property that is not part of `Todo`
+ * - `format`: string that does not have the required shape
+ * - `invalid-date`: well-formed date that does not exist
+ * - `completion-date-on-open-task`: completion date on a task that is not completed
+ * - `missing-completion-date`: completed task with a creation date but no completion date
+ * - `multiline`: description containing a line break
+ * - `ambiguous-description`: description that would be read back as other fields
+ * - `not-in-description`: project, context or tag missing from the description
+ */
+export type TodoValidationCode =
+	| "type"
+	| "required"
+	| "unknown-property"
+	| "format"
+	| "invalid-date"
+	| "completion-date-on-open-task"
+	| "missing-completion-date"
+	| "multiline"
+	| "ambiguous-description"
+	| "not-in-description";
+
+/**
+ * A problem found by `validateTodo`
+ */
+export interface TodoValidationIssue {
+	/** JSON Pointer to the offending value ("" for the object itself) */
+	path: string;
+	/** Machine-readable identifier */
+	code: TodoValidationCode;
+	/** Human-readable description */
+	message: string;
+}
+
+/**
+ * Todo field that can be a CSV column
+ *
+ * Arrays are written space-separated; `tags` is written as `key:value` words.
+ */
+export type CsvField =
+	| "completed"
+	| "priority"
+	| "completionDate"
+	| "creationDate"
+	| "description"
+	| "projects"
+	| "contexts"
+	| "tags"
+	| "raw"
+	| "line"
+	| "id";
+
+/**
+ * A CSV column computed from each todo
+ */
+export interface CsvColumn {
+	/** Header cell */
+	header: string;
+	/** Cell value; undefined leaves the cell empty */
+	value: (todo: Todo) => string | number | boolean | undefined;
+}
+
+/**
+ * Options for `exportCsv`
+ */
+export interface CsvExportOptions {
+	/**
+	 * Columns in order: a field, `tag:<key>` for the values of one tag (headed
+	 * by the key), or a computed column. Defaults to completed, priority,
+	 * completionDate, creationDate, description, projects and contexts,
+	 * followed by one column per tag key in order of first appearance.
+	 */
+	columns?: (CsvField | `tag:${string}` | CsvColumn)[];
+	/** Field separator (default: ",") */
+	delimiter?: string;
+	/** Record separator (default: "\r\n" as in RFC 4180) */
+	newline?: "\n" | "\r\n";
+	/** Write a header row (default: true) */
+	header?: boolean;
+}
+
+/**
+ * Options for `exportICalendar`
+ */
+export interface ICalendarExportOptions {
+	/** PRODID of the calendar (default: "-//todotxt-parser//EN") */
+	productId?: string;
+	/** Time written as DTSTAMP (default: now) */
+	timestamp?: Date;
+	/**
+	 * UID of a task (default: its `id`, or its index when it has none, at
+	 * "todotxt")
+	 */
+	uid?: (todo: Todo, index: number) => string;
+	/** Tag holding the due date (default: "due") */
+	dueTag?: string;
+	/** Tag holding the threshold date, written as DTSTART (default: "t") */
+	thresholdTag?: string;
+}
+
+/**
+ * Options for `exportMarkdown`
+ */
+export interface MarkdownExportOptions {
+	/** Put tasks under a heading per project (default: true) */
+	groupByProject?: boolean;
+	/** Level of the project headings (default: 2) */
+	headingLevel?: number;
+	/** Heading of tasks without a project (default: "No project") */
+	ungroupedHeading?: string;
+	/** Split project names into nested headings with this separator */
+	separator?: string;
+}
+
+/**
+ * Todo field a source field is imported into
+ *
+ * - `line`: a whole todo.txt line; when present, the record's other fields
+ *   are not used
+ * - `description`: text appended to the description
+ * - `priority`: a letter A-Z, or an iCalendar priority 1-9
+ * - `completed`: yes/no, true/false, x, 1/0 or an iCalendar STATUS
+ * - `completionDate`, `creationDate`: a date, also as iCalendar DATE or DATE-TIME
+ * - `projects`, `contexts`: names separated by spaces or commas
+ * - `categories`: comma-separated names; `+name` and `@name` become projects
+ *   and contexts, other names projects
+ * - `tags`: `key:value` words
+ * - `tag:<key>`: values of one tag (iCalendar dates become YYYY-MM-DD)
+ * - `recurrence`: an iCalendar RRULE, written as a `rec:` tag
+ * - `ignore`: dropped without a report
+ */
+export type ImportTarget =
+	| "line"
+	| "description"
+	| "priority"
+	| "completed"
+	| "completionDate"
+	| "creationDate"
+	| "projects"
+	| "contexts"
+	| "categories"
+	| "tags"
+	| `tag:${string}`
+	| "recurrence"
+	| "ignore";
+
+/**
+ * How a source field is imported: a target field, or a function applying the
+ * value to the todo built so far
+ */
+export type ImportFieldMapping =
+	| ImportTarget
+	| ((value: string, todo: Todo) => Todo);
+
+/**
+ * A source value that could not be represented in todo.txt
+ */
+export interface ImportIssue {
+	/** Zero-based index of the source record (VTODO, CSV data row or task list item) */
+	record: number;
+	/** Source field, such as an iCalendar property or a CSV header */
+	field: string;
+	/** Source value */
+	value: string;
+	/** Human-readable description */
+	message: string;
+}
+
+/**
+ * Result of an import
+ */
+export interface ImportResult {
+	/** Imported todos in source order */
+	todos: Todo[];
+	/** The todos as todo.txt content ("" when there are none) */
+	content: string;
+	/** Values that were dropped or changed */
+	issues: ImportIssue[];
+}
+
+/**
+ * Options for `importICalendar`
+ */
+export interface ICalendarImportOptions {
+	/**
+	 * Mapping of property names (case-insensitive) to fields, merged over the
+	 * defaults: X-TODOTXT-LINE to line, SUMMARY to description, PRIORITY,
+	 * STATUS to completed, COMPLETED to completionDate, CREATED to
+	 * creationDate, DUE to tag:due, DTSTART to tag:t, CATEGORIES, RRULE to
+	 * recurrence, and UID, DTSTAMP, LAST-MODIFIED and SEQUENCE ignored
+	 */
+	fields?: Record<string, ImportFieldMapping>;
+}
+
+/**
+ * Options for `importCsv`
+ */
+export interface CsvImportOptions {
+	/**
+	 * Mapping of header cells to fields, merged over the defaults: the field
+	 * names written by `exportCsv` map to themselves (`raw` to line, `line` and
+	 * `id` ignored)
+	 */
+	columns?: Record<string, ImportFieldMapping>;
+	/**
+	 * Import columns without a mapping as tags keyed by their header, as
+	 * written by `exportCsv` (default: true); when false they are reported
+	 */
+	otherColumnsAsTags?: boolean;
+	/** Field separator (default: ",") */
+	delimiter?: string;
+}
+
+/**
+ * Options for `importMarkdown`
+ */
+export interface MarkdownImportOptions {
+	/**
+	 * Add the nearest heading above each item as a project, with whitespace
+	 * replaced by "-" (default: false)
+	 */
+	headingsAsProjects?: boolean;
 }
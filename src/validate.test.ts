@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import { TodoValidationError } from "./errors";
+import { parseTodoLine, parseTodoTxt } from "./parser";
+import { assertTodo, todoJsonSchema, validateTodo } from "./validate";
+
+const base = {
+	completed: false,
+	description: "Call Mom",
+	projects: [],
+	contexts: [],
+	tags: {},
+	raw: "",
+};
+
+describe("validateTodo", () => {
+	it("パースしたタスクは常に有効", () => {
+		const todos = parseTodoTxt(
+			[
+				"(A) 2024-01-01 Call Mom +family @phone due:2024-01-05",
+				"x 2024-01-05 2024-01-01 Pay rent pri:B",
+				"Meet at 10:30 see https://example.com",
+				"Tag twice t:1 t:2",
+			].join("\n"),
+		);
+
+		for (const todo of todos) {
+			expect(validateTodo(todo)).toEqual([]);
+		}
+		expect(validateTodo(parseTodoLine("Call +work", { tokens: true }))).toEqual(
+			[],
+		);
+	});
+
+	it("オブジェクト以外と必須プロパティ", () => {
+		expect(validateTodo("Call Mom")).toEqual([
+			{ path: "", code: "type", message: "Todo must be an object" },
+		]);
+		expect(validateTodo({ description: "Call Mom", extra: 1 })).toEqual([
+			{
+				path: "/extra",
+				code: "unknown-property",
+				message: 'Unknown property "extra"',
+			},
+			{
+				path: "/completed",
+				code: "required",
+				message: 'Missing required property "completed"',
+			},
+			{
+				path: "/projects",
+				code: "required",
+				message: 'Missing required property "projects"',
+			},
+			{
+				path: "/contexts",
+				code: "required",
+				message: 'Missing required property "contexts"',
+			},
+			{
+				path: "/tags",
+				code: "required",
+				message: 'Missing required property "tags"',
+			},
+			{
+				path: "/raw",
+				code: "required",
+				message: 'Missing required property "raw"',
+			},
+		]);
+	});
+
+	it("優先度と日付の形式", () => {
+		expect(
+			validateTodo({
+				...base,
+				priority: "a",
+				creationDate: "2024-02-30",
+				completionDate: "yesterday",
+			}).map(({ path, code }) => [path, code]),
+		).toEqual([
+			["/priority", "format"],
+			["/completionDate", "format"],
+			["/creationDate", "invalid-date"],
+			["/completionDate", "completion-date-on-open-task"],
+		]);
+	});
+
+	it("未完了タスクの完了日と、完了日のない完了タスク", () => {
+		expect(
+			validateTodo({ ...base, completionDate: "2024-01-05" })[0]?.code,
+		).toBe("completion-date-on-open-task");
+		expect(
+			validateTodo({ ...base, completed: true, creationDate: "2024-01-01" })[0]
+				?.code,
+		).toBe("missing-completion-date");
+	});
+
+	it("改行を含む説明や空の説明", () => {
+		expect(validateTodo({ ...base, description: "Call\nMom" })).toEqual([
+			{
+				path: "/description",
+				code: "multiline",
+				message: "Description must not contain line breaks",
+			},
+		]);
+		expect(validateTodo({ ...base, description: " " })[0]?.code).toBe("format");
+	});
+
+	it("他のフィールドとして読み戻される説明", () => {
+		for (const description of [
+			"(A) Call Mom",
+			"2024-01-01 Call Mom",
+			"x Call Mom",
+		]) {
+			expect(validateTodo({ ...base, description })[0]?.code).toBe(
+				"ambiguous-description",
+			);
+		}
+		expect(
+			validateTodo({
+				...base,
+				priority: "A",
+				description: "2024-01-01 Call",
+			})[0]?.message,
+		).toBe(
+			'"(A) 2024-01-01 Call" would be read back with a different creationDate, description',
+		);
+		expect(
+			validateTodo({
+				...base,
+				creationDate: "2024-01-01",
+				description: "2024-01-02 Call",
+			})[0]?.message,
+		).toBe(
+			'"2024-01-01 2024-01-02 Call" would be read back with a different completionDate, creationDate, description',
+		);
+		expect(
+			validateTodo({
+				...base,
+				completed: true,
+				priority: "A",
+				completionDate: "2024-01-05",
+			}),
+		).toEqual([]);
+	});
+
+	it("説明にないプロジェクト、コンテキスト、タグ", () => {
+		expect(
+			validateTodo({
+				...base,
+				description: "Call Mom +family",
+				projects: ["family", "work"],
+				contexts: ["phone"],
+				tags: { "a/b": "1" },
+			}).map(({ path, code }) => [path, code]),
+		).toEqual([
+			["/projects/1", "not-in-description"],
+			["/contexts/0", "not-in-description"],
+			["/tags/a~1b", "not-in-description"],
+		]);
+	});
+
+	it("名前と配列の形式", () => {
+		expect(
+			validateTodo({
+				...base,
+				projects: ["my project"],
+				contexts: "phone",
+				tags: { due: "" },
+				tagEntries: [{ key: "a:b", value: "c" }],
+				line: -1,
+			}).map(({ path, code }) => [path, code]),
+		).toEqual([
+			["/projects/0", "format"],
+			["/contexts", "type"],
+			["/tags/due", "format"],
+			["/tagEntries/0", "format"],
+			["/line", "type"],
+		]);
+	});
+});
+
+describe("assertTodo", () => {
+	it("有効な値はそのまま通す", () => {
+		const value: unknown = {
+			...base,
+			description: "Call Mom +family",
+			projects: ["family"],
+		};
+
+		assertTodo(value);
+		expect(value.projects).toEqual(["family"]);
+	});
+
+	it("無効な値はすべての問題とともに例外を投げる", () => {
+		try {
+			assertTodo({ ...base, priority: "a", description: "Call\nMom" });
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(TodoValidationError);
+			expect((error as TodoValidationError).message).toBe(
+				"Priority must be an uppercase letter A-Z (at /priority)",
+			);
+			expect((error as TodoValidationError).issues).toHaveLength(2);
+		}
+	});
+});
+
+describe("todoJsonSchema", () => {
+	it("Todoのプロパティをすべて記述する", () => {
+		expect(Object.keys(todoJsonSchema.properties)).toEqual([
+			"completed",
+			"priority",
+			"completionDate",
+			"creationDate",
+			"description",
+			"projects",
+			"contexts",
+			"tags",
+			"tagEntries",
+			"raw",
+			"line",
+			"id",
+			"tokens",
+		]);
+		expect(JSON.parse(JSON.stringify(todoJsonSchema))).toEqual(todoJsonSchema);
+	});
+});
@@ -0,0 +1,403 @@
+import { isValidDate } from "./date";
+import { TodoValidationError } from "./errors";
+import { parseTodoLine, serializeTodo } from "./parser";
+import type { Todo, TodoValidationCode, TodoValidationIssue } from "./types";
+
+const DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}$";
+const WORD_PATTERN = "^\\S+$";
+
+const TOKEN_TYPES = [
+	"completion",
+	"priority",
+	"completionDate",
+	"creationDate",
+	"project",
+	"context",
+	"tag",
+	"text",
+] as const;
+
+/**
+ * JSON Schema (draft 2020-12) of a `Todo`
+ *
+ * Describes the shape of a task as accepted by `validateTodo`. Checks that
+ * need the todo.txt grammar, such as whether the description would be read
+ * back as a priority or date, or whether every project appears in the
+ * description, are only done by `validateTodo`.
+ *
+ * @example
+ * ```ts
+ * import Ajv from "ajv/dist/2020";
+ *
+ * const validate = new Ajv().compile(todoJsonSchema);
+ * ```
+ */
+export const todoJsonSchema = {
+	$schema: "https://json-schema.org/draft/2020-12/schema",
+	title: "Todo",
+	description: "A single task in todo.txt format",
+	type: "object",
+	properties: {
+		completed: { type: "boolean" },
+		priority: { type: "string", pattern: "^[A-Z]$" },
+		completionDate: { type: "string", format: "date", pattern: DATE_PATTERN },
+		creationDate: { type: "string", format: "date", pattern: DATE_PATTERN },
+		description: { type: "string", minLength: 1, pattern: "^[^\\r\\n]*$" },
+		projects: {
+			type: "array",
+			items: { type: "string", pattern: WORD_PATTERN },
+		},
+		contexts: {
+			type: "array",
+			items: { type: "string", pattern: WORD_PATTERN },
+		},
+		tags: {
+			type: "object",
+			propertyNames: { pattern: "^[^\\s:]+$" },
+			additionalProperties: { type: "string", pattern: WORD_PATTERN },
+		},
+		tagEntries: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					key: { type: "string", pattern: "^[^\\s:]+$" },
+					value: { type: "string", pattern: WORD_PATTERN },
+				},
+				required: ["key", "value"],
+				additionalProperties: false,
+			},
+		},
+		raw: { type: "string" },
+		line: { type: "integer", minimum: 0 },
+		id: { type: "string" },
+		tokens: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					type: { enum: TOKEN_TYPES },
+					start: { type: "integer", minimum: 0 },
+					end: { type: "integer", minimum: 0 },
+					text: { type: "string" },
+					value: { type: "string" },
+					key: { type: "string" },
+				},
+				required: ["type", "start", "end", "text"],
+				additionalProperties: false,
+			},
+		},
+	},
+	required: ["completed", "description", "projects", "contexts", "tags", "raw"],
+	additionalProperties: false,
+	dependentSchemas: {
+		completionDate: { properties: { completed: { const: true } } },
+	},
+} as const;
+
+/**
+ * Check that a value is a Todo that serializes to the line it describes
+ *
+ * Besides the shape described by {@link todoJsonSchema}, the task must
+ * survive `serializeTodo` followed by `parseTodoLine`: the description must
+ * not start with text that would be read as a completion mark, priority or
+ * date, and every project, context and tag must appear in the description
+ * (`serializeTodo` writes only the description).
+ *
+ * @param value - Value to check, typically parsed JSON
+ * @returns Problems found, empty if the value is valid
+ *
+ * @example
+ * ```ts
+ * validateTodo({ completed: false, priority: "a", description: "Call Mom",
+ *   projects: [], contexts: [], tags: {}, raw: "" });
+ * // [{ path: "/priority", code: "format", message: "Priority must be an uppercase letter A-Z" }]
+ * ```
+ */
+export function validateTodo(value: unknown): TodoValidationIssue[] {
+	const issues: TodoValidationIssue[] = [];
+	const report = (
+		path: string,
+		code: TodoValidationCode,
+		message: string,
+	): void => {
+		issues.push({ path, code, message });
+	};
+
+	if (!isRecord(value)) {
+		report("", "type", "Todo must be an object");
+		return issues;
+	}
+
+	const known = new Set(Object.keys(todoJsonSchema.properties));
+	for (const key of Object.keys(value)) {
+		if (!known.has(key)) {
+			report(pointer(key), "unknown-property", `Unknown property "${key}"`);
+		}
+	}
+	for (const key of todoJsonSchema.required) {
+		if (value[key] === undefined) {
+			report(pointer(key), "required", `Missing required property "${key}"`);
+		}
+	}
+
+	const {
+		completed,
+		priority,
+		completionDate,
+		creationDate,
+		description,
+		projects,
+		contexts,
+		tags,
+		tagEntries,
+		raw,
+		line,
+		id,
+		tokens,
+	} = value;
+
+	if (completed !== undefined && typeof completed !== "boolean") {
+		report("/completed", "type", "completed must be a boolean");
+	}
+	if (priority !== undefined) {
+		if (typeof priority !== "string" || !/^[A-Z]$/.test(priority)) {
+			report("/priority", "format", "Priority must be an uppercase letter A-Z");
+		}
+	}
+	checkDate(completionDate, "/completionDate", report);
+	checkDate(creationDate, "/creationDate", report);
+
+	if (completed === false && completionDate !== undefined) {
+		report(
+			"/completionDate",
+			"completion-date-on-open-task",
+			"Only completed tasks can have a completion date",
+		);
+	}
+	if (completed === true && completionDate === undefined && creationDate) {
+		report(
+			"/completionDate",
+			"missing-completion-date",
+			"A completed task with a creation date needs a completion date",
+		);
+	}
+
+	if (description !== undefined) {
+		if (typeof description !== "string") {
+			report("/description", "type", "description must be a string");
+		} else if (/[\r\n]/.test(description)) {
+			report(
+				"/description",
+				"multiline",
+				"Description must not contain line breaks",
+			);
+		} else if (description.trim().length === 0) {
+			report("/description", "format", "Description must not be empty");
+		}
+	}
+
+	checkWords(projects, "/projects", "Project", report);
+	checkWords(contexts, "/contexts", "Context", report);
+	if (tags !== undefined) {
+		if (!isRecord(tags)) {
+			report("/tags", "type", "tags must be an object");
+		} else {
+			for (const [key, tagValue] of Object.entries(tags)) {
+				checkTag(key, tagValue, pointer("tags", key), report);
+			}
+		}
+	}
+	if (tagEntries !== undefined) {
+		if (!Array.isArray(tagEntries)) {
+			report("/tagEntries", "type", "tagEntries must be an array");
+		} else {
+			tagEntries.forEach((entry: unknown, index) => {
+				const path = pointer("tagEntries", index);
+				if (!isRecord(entry)) {
+					report(path, "type", "Tag entry must be an object");
+				} else {
+					checkTag(entry.key, entry.value, path, report);
+				}
+			});
+		}
+	}
+
+	if (raw !== undefined && typeof raw !== "string") {
+		report("/raw", "type", "raw must be a string");
+	}
+	if (line !== undefined && !(Number.isInteger(line) && Number(line) >= 0)) {
+		report("/line", "type", "line must be a non-negative integer");
+	}
+	if (id !== undefined && typeof id !== "string") {
+		report("/id", "type", "id must be a string");
+	}
+	if (tokens !== undefined) {
+		checkTokens(tokens, report);
+	}
+
+	// Only a structurally valid todo can be serialized and read back
+	if (issues.length === 0) {
+		checkRoundTrip(value as unknown as Todo, report);
+	}
+
+	return issues;
+}
+
+/**
+ * Assert that a value is a valid Todo (see {@link validateTodo})
+ *
+ * @param value - Value to check, typically parsed JSON
+ * @throws {TodoValidationError} If the value is not a valid Todo
+ *
+ * @example
+ * ```ts
+ * const body: unknown = await request.json();
+ * assertTodo(body);
+ * content = appendTaskToFile(content, body);
+ * ```
+ */
+export function assertTodo(value: unknown): asserts value is Todo {
+	const issues = validateTodo(value);
+	if (issues.length > 0) {
+		throw new TodoValidationError(issues);
+	}
+}
+
+type Report = (path: string, code: TodoValidationCode, message: string) => void;
+
+function checkDate(value: unknown, path: string, report: Report): void {
+	if (value === undefined) {
+		return;
+	}
+	if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+		report(path, "format", "Date must be in YYYY-MM-DD format");
+	} else if (!isValidDate(value)) {
+		report(path, "invalid-date", `${value} is not a valid date`);
+	}
+}
+
+function checkWords(
+	value: unknown,
+	path: string,
+	kind: string,
+	report: Report,
+): void {
+	if (value === undefined) {
+		return;
+	}
+	if (!Array.isArray(value)) {
+		report(path, "type", `${path.slice(1)} must be an array`);
+		return;
+	}
+
+	value.forEach((item: unknown, index) => {
+		if (typeof item !== "string" || !/^\S+$/.test(item)) {
+			report(
+				`${path}/${index}`,
+				"format",
+				`${kind} name must be a non-empty word without whitespace`,
+			);
+		}
+	});
+}
+
+function checkTag(
+	key: unknown,
+	value: unknown,
+	path: string,
+	report: Report,
+): void {
+	if (typeof key !== "string" || !/^[^\s:]+$/.test(key)) {
+		report(path, "format", "Tag key must be a word without colons");
+	} else if (typeof value !== "string" || !/^\S+$/.test(value)) {
+		report(path, "format", `Tag "${key}" must have a non-empty word as value`);
+	}
+}
+
+function checkTokens(value: unknown, report: Report): void {
+	if (!Array.isArray(value)) {
+		report("/tokens", "type", "tokens must be an array");
+		return;
+	}
+
+	const types: readonly string[] = TOKEN_TYPES;
+	value.forEach((token: unknown, index) => {
+		const path = pointer("tokens", index);
+		if (
+			!isRecord(token) ||
+			typeof token.type !== "string" ||
+			!types.includes(token.type) ||
+			!Number.isInteger(token.start) ||
+			!Number.isInteger(token.end) ||
+			typeof token.text !== "string"
+		) {
+			report(path, "type", "Token must have a type, start, end and text");
+		}
+	});
+}
+
+function checkRoundTrip(todo: Todo, report: Report): void {
+	const line = serializeTodo(todo);
+	const parsed = parseTodoLine(line);
+
+	const fields = [
+		"completed",
+		"priority",
+		"completionDate",
+		"creationDate",
+		"description",
+	] as const;
+	const changed = fields.filter((field) => parsed[field] !== todo[field]);
+	if (changed.length > 0) {
+		report(
+			"/description",
+			"ambiguous-description",
+			`"${line}" would be read back with a different ${changed.join(", ")}`,
+		);
+		return;
+	}
+
+	const missing = (path: string, kind: string, name: string): void =>
+		report(
+			path,
+			"not-in-description",
+			`${kind} "${name}" does not appear in the description`,
+		);
+
+	todo.projects.forEach((project, index) => {
+		if (!parsed.projects.includes(project)) {
+			missing(`/projects/${index}`, "Project", project);
+		}
+	});
+	todo.contexts.forEach((context, index) => {
+		if (!parsed.contexts.includes(context)) {
+			missing(`/contexts/${index}`, "Context", context);
+		}
+	});
+	const entries = parsed.tagEntries ?? [];
+	for (const [key, value] of Object.entries(todo.tags)) {
+		if (parsed.tags[key] !== value) {
+			missing(pointer("tags", key), "Tag", `${key}:${value}`);
+		}
+	}
+	todo.tagEntries?.forEach(({ key, value }, index) => {
+		if (!entries.some((entry) => entry.key === key && entry.value === value)) {
+			missing(pointer("tagEntries", index), "Tag", `${key}:${value}`);
+		}
+	});
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// JSON Pointer (RFC 6901) from unescaped segments
+function pointer(...segments: (string | number)[]): string {
+	return segments
+		.map(
+			(segment) =>
+				`/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`,
+		)
+		.join("");
+}